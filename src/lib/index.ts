@@ -1,6 +1,21 @@
 export * from './olo-descriptor.ts';
+export * from './olo-format-registry.ts';
 export * from './olo-id.ts';
+export * from './olo-id-brand.ts';
+export * from './olo-id-error.ts';
+export * from './olo-id-generator.ts';
+export * from './olo-id-hash.ts';
+export * from './olo-id-index.ts';
+export * from './olo-id-resolver.ts';
+export * from './olo-id-schema.ts';
 export * from './olo-id-set.ts';
+export * from './olo-id-signer.ts';
+export * from './olo-id-sort.ts';
 export * from './olo-id-syntax.ts';
+export * from './olo-id-token.ts';
+export * from './olo-json-schema.ts';
+export * from './olo-negotiation.ts';
 export * from './olo-reference.ts';
 export * from './olo-resource/index.ts';
+export * from './olo-selector.ts';
+export * from './olo-selector-text.ts';
@@ -1,4 +1,6 @@
 import { OloDescriptor, OloDescriptorParameter, isOloDescriptor, isOloDescriptorList } from './olo-descriptor.ts';
+import { OloIdSet } from './olo-id-set.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
 
 import { Format } from '../types/index.ts';
 
@@ -39,6 +41,30 @@ describe('OloDescriptor', () => {
     expect(descriptor2.toJSON()).toEqual(descriptorParam);
   });
 
+  it('should compare OloDescriptors by their uri', () => {
+    const descriptor = new OloDescriptor(descriptorParam);
+
+    expect(descriptor.isSame(new OloDescriptor(descriptor))).toBe(true);
+    expect(descriptor.isSame(new OloIdSet(descriptorParam.uri))).toBe(true);
+    expect(new OloIdSet(descriptorParam.uri).isSame(descriptor)).toBe(true);
+    expect(descriptor.isSame(new OloDescriptor({ uri: { type1: 'value1', type2: 'other' } }))).toBe(false);
+  });
+
+  it('should clone an OloDescriptor', () => {
+    const registry = new OloIdSyntax([['type1', 'type2']], { scoped: true });
+    const descriptor = new OloDescriptor(descriptorParam, { registry, rejectConflicts: true });
+    const copy = descriptor.clone();
+
+    copy.format = Format.link;
+    expect(copy).toBeInstanceOf(OloDescriptor);
+    expect(copy).not.toBe(descriptor);
+    expect(copy.isSame(descriptor)).toBe(true);
+    expect(copy.parts).toStrictEqual(descriptor.parts);
+    expect(descriptor.format).toBe(Format.document);
+    expect(copy['oloIdSyntax']).toBe(registry);
+    expect(copy['options']).toEqual(expect.objectContaining({ registry, rejectConflicts: true }));
+  });
+
   it('should check if an object is an OloDescriptor', () => {
     const descriptor = new OloDescriptor({ uri: { type1: 'value1', type2: 'value2' } });
     expect(isOloDescriptor(descriptor)).toBe(true);
@@ -56,4 +82,13 @@ describe('OloDescriptor', () => {
     expect(isOloDescriptorList([descriptor1, {}])).toBe(false);
     expect(isOloDescriptorList([])).toBe(true);
   });
+
+  it('should check if a part is included', () => {
+    const descriptor = new OloDescriptor({ uri: { type1: 'value1', type2: 'value2' }, parts: { body: { title: true } } });
+
+    expect(descriptor.includesPart('body.title')).toBe(true);
+    expect(descriptor.includesPart(['body', 'text'])).toBe(false);
+    expect(new OloDescriptor(descriptorParam).includesPart('part3')).toBe(false);
+    expect(new OloDescriptor({ uri: { type1: 'value1', type2: 'value2' } }).includesPart('part3')).toBe(true);
+  });
 });
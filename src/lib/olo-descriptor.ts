@@ -1,7 +1,8 @@
 import { GetListTypeGuard } from 'olo-platform';
-import { Format, OloIdSchema, OloUri, Selector, isFormat } from '../types/index.ts';
+import { Format, OloIdOptions, OloIdSchema, OloUri, Selector, isFormat } from '../types/index.ts';
 
 import { isOloIdSet, OloIdMap, OloIdSet } from './olo-id-set.ts';
+import { selectorIncludes } from './olo-selector.ts';
 
 export interface OloDescriptorParameter<
   IdentifierProperties extends string[][] = string[][],
@@ -71,6 +72,8 @@ export class OloDescriptor<
    * @param descriptor - The source data for the descriptor. Can be:
    *   - An object containing `uri` (as `OloUri` or `OloIdMap`), and optional `format` and `parts`.
    *   - Another `OloDescriptor` instance (copy constructor pattern).
+   * @param options - Optional configuration passed on to the `OloIdSet` constructor,
+   *   e.g. a scoped `registry` to resolve the syntaxes of `uri` with.
    *
    * @example
    * // From OloUri with format
@@ -87,19 +90,63 @@ export class OloDescriptor<
    *   uri: { component: 'header' },
    *   parts: { children: true }
    * });
+   *
+   * // Resolved with a scoped registry
+   * const desc4 = new OloDescriptor({ uri: { id: 'doc123' } }, { registry: new OloIdSyntax(['id'], { scoped: true }) });
    */
   constructor (descriptor:
     OloDescriptorParameter<IdentifierProperties, IdentifierValue, Parts, PartsSetting>
-    | OloDescriptor<IdentifierProperties, IdentifierValue, Parts, PartsSetting>) {
+    | OloDescriptor<IdentifierProperties, IdentifierValue, Parts, PartsSetting>,
+    options: OloIdOptions<[...IdentifierProperties[number]], '/'> = {},
+  ) {
     super(isOloDescriptor(descriptor)
       ? descriptor['uri'] as unknown as OloIdMap<IdentifierProperties, IdentifierValue>
       : (descriptor as OloDescriptorParameter<IdentifierProperties, IdentifierValue>).uri,
+      options,
     );
 
     this.format = descriptor.format ?? this.format;
     this.parts = descriptor.parts ?? this.parts;
   }
 
+  /**
+   * Checks whether `parts` selects a part of the described entity (see {@link selectorIncludes}).
+   *
+   * @param path - The path of the part, either dot-separated (`'body.title'`) or as list of parts.
+   *
+   * @returns `true` if the part, or some of its sub-parts, are selected.
+   *
+   * @example
+   * const desc = new OloDescriptor({ uri: { type: 'article', id: 'a1' }, parts: { body: { title: true } } });
+   *
+   * console.log(desc.includesPart('body.title')); // Output: true
+   * console.log(desc.includesPart('footer')); // Output: false
+   */
+  includesPart(path: string | string[]): boolean {
+    return selectorIncludes(this.parts, path);
+  }
+
+  /**
+   * Creates a copy of the descriptor with its own constructor, so references and resources keep their
+   * additional properties. The copy uses the registry and the options the descriptor was created with
+   * (e.g. `strict` and `rejectConflicts`).
+   *
+   * @returns The copy.
+   *
+   * @example
+   * const desc = new OloDescriptor({ uri: { id: 'doc123' }, format: Format.document }, { registry, rejectConflicts: true });
+   * const copy = desc.clone();
+   *
+   * copy.format = Format.link;
+   * console.log(desc.format, copy.isSame(desc)); // Output: 'DOCUMENT' true
+   */
+  clone(): this {
+    return new (this.constructor as new (descriptor: this, options: OloIdOptions<[...IdentifierProperties[number]], '/'>) => this)(
+      this,
+      this['options'] as OloIdOptions<[...IdentifierProperties[number]], '/'>,
+    );
+  }
+
   /**
    * @override
    * Overrides the `toJSON` method of `OloIdSet` to include descriptor-specific properties (`format`, `parts`)
@@ -0,0 +1,86 @@
+import { Format } from '../types/index.ts';
+import { OloFormatRegistry } from './olo-format-registry.ts';
+
+describe('OloFormatRegistry', () => {
+  it('should define all formats by default', () => {
+    const formats = new OloFormatRegistry([], { scoped: true });
+    expect(formats.getDefinitions().map(definition => definition.format)).toEqual(expect.arrayContaining(Object.values(Format)));
+    expect(formats.getDefinition(Format.image)?.mimeTypes).toContain('image/png');
+    expect(formats.getDefinition('MODEL')).toBeUndefined();
+  });
+
+  it('should return the fields applying to a format', () => {
+    const formats = new OloFormatRegistry([], { scoped: true });
+    expect(formats.getFields(Format.audio)).toEqual(['filetype', 'size', 'kompression', 'duration']);
+    expect(formats.getFields(Format.video)).toEqual(expect.arrayContaining(['width', 'height', 'framerate', 'duration']));
+    expect(formats.getFields(Format.image)).not.toContain('duration');
+    expect(formats.getFields(Format.term)).toEqual([]);
+    expect(formats.getFields('MODEL')).toEqual([]);
+  });
+
+  it('should find the format of a MIME type', () => {
+    const formats = new OloFormatRegistry([], { scoped: true });
+    expect(formats.getFormatByFiletype('video/mp4')).toBe(Format.video);
+    expect(formats.getFormatByFiletype('Image/SVG+XML')).toBe(Format.graphic);
+    expect(formats.getFormatByFiletype('text/html; charset=utf-8')).toBe(Format.text);
+    expect(formats.getFormatByFiletype('model/gltf-binary')).toBeUndefined();
+  });
+
+  it('should find the format of a file by its extension', () => {
+    const formats = new OloFormatRegistry([], { scoped: true });
+    expect(formats.getFormatByExtension('logo.png')).toBe(Format.image);
+    expect(formats.getFormatByExtension('https://oloteo.com/intro.MP4?t=10')).toBe(Format.video);
+    expect(formats.getFormatByExtension('.pdf')).toBe(Format.document);
+    expect(formats.getFormatByExtension('mp3')).toBe(Format.audio);
+    expect(formats.getFormatByExtension('model.glb')).toBeUndefined();
+    expect(formats.getFormatByExtension('file.constructor')).toBeUndefined();
+  });
+
+  it('should check whether a MIME type belongs to a format', () => {
+    const formats = new OloFormatRegistry([], { scoped: true });
+    expect(formats.isFiletypeOf('image/png', Format.image)).toBe(true);
+    expect(formats.isFiletypeOf('IMAGE/PNG', Format.image)).toBe(true);
+    expect(formats.isFiletypeOf('image/png', Format.video)).toBe(false);
+    expect(formats.isFiletypeOf('image/png', 'MODEL')).toBe(false);
+  });
+
+  it('should infer the MIME type of a file of a format', () => {
+    const formats = new OloFormatRegistry([], { scoped: true });
+    expect(formats.inferFiletype(Format.image, 'logo.png')).toBe('image/png');
+    expect(formats.inferFiletype(Format.image, 'photo.JPG')).toBe('image/jpeg');
+    expect(formats.inferFiletype(Format.image)).toBe('image/jpeg');
+    expect(formats.inferFiletype(Format.image, 'intro.mp4')).toBe('image/jpeg');
+    expect(formats.inferFiletype(Format.person)).toBeUndefined();
+    expect(formats.inferFiletype('MODEL', 'model.glb')).toBeUndefined();
+  });
+
+  it('should register custom formats', () => {
+    const formats = new OloFormatRegistry([], { scoped: true });
+    expect(formats.setFormats([
+      { format: 'MODEL', mimeTypes: ['Model/GLTF-Binary'], extensions: { '.GLB': 'model/gltf-binary' }, fields: ['filetype', 'size'] },
+    ])).toEqual(['MODEL']);
+
+    expect(formats.getDefinition('MODEL')).toEqual({
+      format: 'MODEL',
+      mimeTypes: ['model/gltf-binary'],
+      extensions: { glb: 'model/gltf-binary' },
+      fields: ['filetype', 'size'],
+    });
+    expect(formats.getFormatByFiletype('model/gltf-binary')).toBe('MODEL');
+    expect(formats.getFormatByExtension('scene.glb')).toBe('MODEL');
+    expect(formats.inferFiletype('MODEL', 'scene.glb')).toBe('model/gltf-binary');
+  });
+
+  it('should replace built-in definitions in scoped registries only', () => {
+    const scoped = new OloFormatRegistry(
+      [{ format: Format.image, mimeTypes: ['image/png'], extensions: { png: 'image/png' }, fields: ['filetype'] }],
+      { scoped: true },
+    );
+    expect(scoped.isFiletypeOf('image/jpeg', Format.image)).toBe(false);
+    expect(scoped.getFields(Format.image)).toEqual(['filetype']);
+
+    const global = new OloFormatRegistry();
+    expect(global.isFiletypeOf('image/jpeg', Format.image)).toBe(true);
+    expect(new OloFormatRegistry([], { scoped: true }).getDefinition('MODEL')).toBeUndefined();
+  });
+});
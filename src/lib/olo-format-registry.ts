@@ -0,0 +1,284 @@
+import { Format, OloFormatDefinition, OloResourceField } from '../types/index.ts';
+
+/**
+ * The fields applying to all file-based formats.
+ */
+const FILE_FIELDS: OloResourceField[] = ['filetype', 'size', 'kompression'];
+
+/**
+ * The fields applying to all visual formats.
+ */
+const VISUAL_FIELDS: OloResourceField[] = ['width', 'height', 'ratio', 'focus', 'cropable'];
+
+/**
+ * The built-in definitions of all {@link Format}s.
+ */
+const FORMAT_DEFINITIONS: OloFormatDefinition[] = [
+  { format: Format.term, mimeTypes: [], extensions: {}, fields: [] },
+  {
+    format: Format.audio,
+    mimeTypes: ['audio/mpeg', 'audio/ogg', 'audio/wav', 'audio/aac', 'audio/flac', 'audio/webm'],
+    extensions: { mp3: 'audio/mpeg', ogg: 'audio/ogg', oga: 'audio/ogg', wav: 'audio/wav', aac: 'audio/aac', flac: 'audio/flac', weba: 'audio/webm' },
+    fields: [...FILE_FIELDS, 'duration'],
+  },
+  {
+    format: Format.document,
+    mimeTypes: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.oasis.opendocument.text',
+    ],
+    extensions: {
+      pdf: 'application/pdf',
+      doc: 'application/msword',
+      docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      odt: 'application/vnd.oasis.opendocument.text',
+    },
+    fields: [...FILE_FIELDS],
+  },
+  {
+    format: Format.graphic,
+    mimeTypes: ['image/svg+xml', 'application/postscript'],
+    extensions: { svg: 'image/svg+xml', eps: 'application/postscript', ai: 'application/postscript' },
+    fields: [...FILE_FIELDS, ...VISUAL_FIELDS],
+  },
+  {
+    format: Format.image,
+    mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif'],
+    extensions: { jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', webp: 'image/webp', avif: 'image/avif' },
+    fields: [...FILE_FIELDS, ...VISUAL_FIELDS],
+  },
+  { format: Format.link, mimeTypes: ['text/uri-list'], extensions: { uri: 'text/uri-list' }, fields: ['filetype'] },
+  {
+    format: Format.text,
+    mimeTypes: ['text/plain', 'text/markdown', 'text/html'],
+    extensions: { txt: 'text/plain', md: 'text/markdown', html: 'text/html', htm: 'text/html' },
+    fields: [...FILE_FIELDS],
+  },
+  {
+    format: Format.video,
+    mimeTypes: ['video/mp4', 'video/webm', 'video/ogg', 'video/quicktime'],
+    extensions: { mp4: 'video/mp4', webm: 'video/webm', ogv: 'video/ogg', mov: 'video/quicktime' },
+    fields: [...FILE_FIELDS, ...VISUAL_FIELDS, 'framerate', 'duration'],
+  },
+  { format: Format.person, mimeTypes: [], extensions: {}, fields: [] },
+];
+
+/**
+ * Strips parameters (e.g. `; charset=utf-8`) from a MIME type and lowercases it.
+ *
+ * @param filetype - The MIME type.
+ * @returns The essence of the MIME type.
+ */
+const normMimeType = (filetype: string): string =>
+  (filetype.split(';')[0] ?? '').trim().toLowerCase();
+
+/**
+ * Extracts the lowercased extension of a file name, or takes a bare extension (with or without leading dot).
+ *
+ * @param filename - The file name, path, URL or extension.
+ * @returns The extension.
+ */
+const normExtension = (filename: string): string =>
+  (filename.split(/[?#]/)[0] ?? '').split(/[/.]/).pop()?.toLowerCase() ?? '';
+
+/**
+ * Returns the MIME type a format declares for the extension of a file.
+ *
+ * @param definition - The definition of the format.
+ * @param filename - The file name, path or URL, or a bare extension.
+ * @returns The MIME type, or `undefined` if the format doesn't declare the extension.
+ */
+const getExtensionMimeType = (definition: OloFormatDefinition, filename: string): string | undefined => {
+  const extension = normExtension(filename);
+  return Object.hasOwn(definition.extensions, extension) ? definition.extensions[extension] : undefined;
+};
+
+/**
+ * Manages the metadata of formats: the MIME types and file extensions of their files, and the
+ * {@link OloResource} fields applying to them.
+ *
+ * All {@link Format}s are registered by default. Custom formats can be registered next to them,
+ * and the definitions of built-in formats can be replaced. Like {@link OloIdSyntax}, instances work on
+ * a global registry unless they are scoped.
+ *
+ * @example
+ * const formats = new OloFormatRegistry();
+ *
+ * console.log(formats.getFormatByFiletype('video/mp4')); // Output: 'VIDEO'
+ * console.log(formats.getFields(Format.audio)); // Output: ['filetype', 'size', 'kompression', 'duration']
+ * console.log(formats.inferFiletype(Format.image, 'logo.png')); // Output: 'image/png'
+ *
+ * // Register a custom format
+ * formats.setFormats([{ format: 'MODEL', mimeTypes: ['model/gltf-binary'], extensions: { glb: 'model/gltf-binary' }, fields: ['filetype', 'size'] }]);
+ */
+export class OloFormatRegistry {
+  /**
+   * Stores the format definitions of the global registry, keyed by format.
+   *
+   * @static
+   * @private
+   */
+  private static formats: Map<string, OloFormatDefinition> = new Map(
+    FORMAT_DEFINITIONS.map(definition => [definition.format, definition]),
+  );
+
+  /**
+   * The registry this instance works on. Refers to the static `formats` Map unless the instance is scoped,
+   * in which case it holds a copy of the built-in definitions and the formats registered on this instance.
+   *
+   * @private
+   */
+  private registry: Map<string, OloFormatDefinition>;
+
+  /**
+   * Initializes the format registry.
+   *
+   * @constructor
+   *
+   * @param definitions - Format definitions to register. Definitions of already registered formats replace them.
+   * @param options - Configuration options for the registry.
+   * @param options.scoped - If `true`, the instance manages its own registry, starting with the built-in
+   *   definitions. Defaults to `false`.
+   *
+   * @example
+   * // Replace the definition of images in a scoped registry only
+   * const formats = new OloFormatRegistry(
+   *   [{ format: Format.image, mimeTypes: ['image/png'], extensions: { png: 'image/png' }, fields: ['filetype', 'width', 'height'] }],
+   *   { scoped: true },
+   * );
+   */
+  constructor (definitions: OloFormatDefinition[] = [], { scoped = false }: { scoped?: boolean } = {}) {
+    this.registry = scoped
+      ? new Map(FORMAT_DEFINITIONS.map(definition => [definition.format, definition]))
+      : OloFormatRegistry.formats;
+
+    this.setFormats(definitions);
+  }
+
+  /**
+   * Registers format definitions. MIME types and extensions are stored lowercased, extensions without leading dot.
+   * Definitions of already registered formats replace them.
+   *
+   * @param definitions - The format definitions to register.
+   *
+   * @returns The registered formats.
+   *
+   * @example
+   * const formats = new OloFormatRegistry([], { scoped: true });
+   * console.log(formats.setFormats([{ format: 'MODEL', mimeTypes: ['model/gltf-binary'], extensions: { '.GLB': 'model/gltf-binary' }, fields: ['filetype'] }]));
+   * // Output: ['MODEL']
+   */
+  public setFormats(definitions: OloFormatDefinition[]): string[] {
+    definitions.forEach(definition => {
+      this.registry.set(definition.format, {
+        ...definition,
+        mimeTypes: definition.mimeTypes.map(normMimeType),
+        extensions: Object.fromEntries(
+          Object.entries(definition.extensions).map(([extension, mimeType]) => [normExtension(extension), normMimeType(mimeType)]),
+        ),
+      });
+    });
+
+    return definitions.map(definition => definition.format);
+  }
+
+  /**
+   * Returns the definition of a format.
+   *
+   * @param format - The format.
+   * @returns The definition, or `undefined` if the format isn't registered.
+   */
+  public getDefinition(format: Format | string): OloFormatDefinition | undefined {
+    return this.registry.get(format);
+  }
+
+  /**
+   * Returns the definitions of all registered formats.
+   *
+   * @returns The definitions, built-in formats first.
+   */
+  public getDefinitions(): OloFormatDefinition[] {
+    return [...this.registry.values()];
+  }
+
+  /**
+   * Returns the fields of an `OloResource` that apply to a format.
+   *
+   * @param format - The format.
+   * @returns The fields, empty if the format isn't registered.
+   *
+   * @example
+   * console.log(new OloFormatRegistry().getFields(Format.video).includes('framerate')); // Output: true
+   */
+  public getFields(format: Format | string): OloResourceField[] {
+    return this.getDefinition(format)?.fields ?? [];
+  }
+
+  /**
+   * Finds the format of a MIME type. If several formats declare the MIME type, the first registered one is returned.
+   *
+   * @param filetype - The MIME type, parameters (e.g. `; charset=utf-8`) are ignored.
+   * @returns The format, or `undefined` if no registered format declares the MIME type.
+   *
+   * @example
+   * console.log(new OloFormatRegistry().getFormatByFiletype('Image/SVG+XML')); // Output: 'GRAPHIC'
+   */
+  public getFormatByFiletype(filetype: string): Format | string | undefined {
+    const mimeType = normMimeType(filetype);
+    return this.getDefinitions().find(definition => definition.mimeTypes.includes(mimeType))?.format;
+  }
+
+  /**
+   * Finds the format of a file by its extension.
+   *
+   * @param filename - The file name, path or URL, or a bare extension.
+   * @returns The format, or `undefined` if no registered format declares the extension.
+   *
+   * @example
+   * console.log(new OloFormatRegistry().getFormatByExtension('https://oloteo.com/intro.MP4?t=10')); // Output: 'VIDEO'
+   */
+  public getFormatByExtension(filename: string): Format | string | undefined {
+    return this.getDefinitions().find(definition => getExtensionMimeType(definition, filename) !== undefined)?.format;
+  }
+
+  /**
+   * Checks whether a MIME type is one of the MIME types of a format.
+   *
+   * @param filetype - The MIME type, parameters (e.g. `; charset=utf-8`) are ignored.
+   * @param format - The format.
+   * @returns `true` if the format declares the MIME type.
+   *
+   * @example
+   * const formats = new OloFormatRegistry();
+   * console.log(formats.isFiletypeOf('image/png', Format.image)); // Output: true
+   * console.log(formats.isFiletypeOf('image/png', Format.video)); // Output: false
+   */
+  public isFiletypeOf(filetype: string, format: Format | string): boolean {
+    return this.getDefinition(format)?.mimeTypes.includes(normMimeType(filetype)) ?? false;
+  }
+
+  /**
+   * Infers the MIME type of a file of a format: the MIME type belonging to the extension of the file name,
+   * or the preferred MIME type of the format.
+   *
+   * @param format - The format.
+   * @param filename - Optional. The file name, path or URL. Only extensions declared by the format are considered.
+   *
+   * @returns The MIME type, or `undefined` if the format declares none.
+   *
+   * @example
+   * const formats = new OloFormatRegistry();
+   * console.log(formats.inferFiletype(Format.image, 'logo.png')); // Output: 'image/png'
+   * console.log(formats.inferFiletype(Format.image)); // Output: 'image/jpeg'
+   */
+  public inferFiletype(format: Format | string, filename?: string): string | undefined {
+    const definition = this.getDefinition(format);
+    if (!definition) {
+      return undefined;
+    }
+
+    return (filename === undefined ? undefined : getExtensionMimeType(definition, filename)) ?? definition.mimeTypes[0];
+  }
+}
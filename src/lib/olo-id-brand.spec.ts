@@ -0,0 +1,61 @@
+import { ID_BRAND } from '../types/index.ts';
+import { OloId } from './olo-id.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+import { Branded, defineIdBrand } from './olo-id-brand.ts';
+
+describe('defineIdBrand', () => {
+  const registry = new OloIdSyntax([], { scoped: true });
+  const UserId = defineIdBrand('User', { syntax: ['id'], registry });
+  const ArticleId = defineIdBrand('Article', { syntax: ['id'], registry });
+  const EmailId = defineIdBrand('Email', { syntax: ['username', 'domain'], registry });
+
+  it('should create branded OloIds', () => {
+    const userId = UserId.create('ae123');
+
+    expect(userId).toBeInstanceOf(OloId);
+    expect(userId[ID_BRAND]).toBe('User');
+    expect(userId.toJSON()).toEqual({ id: 'ae123' });
+    expect(userId.toString()).toBe('ae123');
+    expect(Object.keys(userId)).not.toContain(ID_BRAND);
+    expectTypeOf(userId).toEqualTypeOf<Branded<OloId<['id']>, 'User'>>();
+  });
+
+  it('should tell brands apart at runtime', () => {
+    const userId = UserId.create('ae123');
+    const articleId = ArticleId.create('ae123');
+
+    expect(UserId.is(userId)).toBe(true);
+    expect(UserId.is(articleId)).toBe(false);
+    expect(UserId.is(new OloId('ae123', { syntax: ['id'], registry }))).toBe(false);
+    expect(UserId.is('ae123')).toBe(false);
+    expect(UserId.isList([userId, UserId.create('ae124')])).toBe(true);
+    expect(UserId.isList([userId, articleId])).toBe(false);
+    expect(userId.isSame(articleId)).toBe(true);
+  });
+
+  it('should tell brands apart at compile time', () => {
+    const loadArticle = (id: ReturnType<typeof ArticleId.create>) => id.toString();
+
+    expect(loadArticle(ArticleId.create('ae123'))).toBe('ae123');
+
+    // @ts-expect-error a user id is not an article id
+    loadArticle(UserId.create('ae123'));
+
+    // @ts-expect-error an unbranded id is not an article id
+    loadArticle(new OloId('ae123', { syntax: ['id'], registry }));
+  });
+
+  it('should brand existing OloIds', () => {
+    const id = new OloId('albert@oloteo.com', { syntax: ['username', 'domain'], separator: '@', registry });
+    const emailId = EmailId.from(id);
+
+    expect(emailId).toBe(id);
+    expect(EmailId.is(id)).toBe(true);
+    expect(EmailId.from(emailId)).toBe(emailId);
+  });
+
+  it('should throw if an OloId can not be branded', () => {
+    expect(() => EmailId.from(new OloId('ae123', { syntax: ['id'], registry }))).toThrow(TypeError);
+    expect(() => ArticleId.from(UserId.create('ae123'))).toThrow('"ae123" can\'t be branded as Article.');
+  });
+});
@@ -0,0 +1,148 @@
+import { GetListTypeGuard } from 'olo-platform';
+import { ID_BRAND, IdSeparator, OloIdOptions, OloUri } from '../types/index.ts';
+
+import { OloId, isOloId } from './olo-id.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+
+/**
+ * Returns the brand an identifier carries, if any.
+ *
+ * @private
+ */
+const getBrand = (id: object): unknown => (id as { [ID_BRAND]?: unknown })[ID_BRAND];
+
+/**
+ * An identifier carrying a brand, so that identifiers of different entity kinds (e.g. users and articles)
+ * can't be mixed up, even if they are structurally identical.
+ *
+ * @template Identifier - The branded identifier type, e.g. `OloId<['id']>`.
+ * @template Brand - The string literal type of the brand, e.g. `'User'`.
+ *
+ * @example
+ * type UserId = Branded<OloId<['id']>, 'User'>;
+ * type ArticleId = Branded<OloId<['id']>, 'Article'>;
+ *
+ * const loadArticle = (id: ArticleId) => {};
+ * loadArticle(userId); // compile error
+ */
+export type Branded<Identifier, Brand extends string> = Identifier & { readonly [ID_BRAND]: Brand };
+
+/**
+ * The factory and guards returned by {@link defineIdBrand}.
+ *
+ * @template Brand - The string literal type of the brand.
+ * @template IdentifierProperties - The syntax of the branded OloIds.
+ * @template IdentifierValue - The type of the identifier values.
+ * @template Separator - The string literal type of the separator.
+ */
+export interface OloIdBrand<
+  Brand extends string,
+  IdentifierProperties extends string[] = string[],
+  IdentifierValue extends string | number = string | number,
+  Separator extends string = IdSeparator
+> {
+  /**
+   * The brand.
+   */
+  readonly brand: Brand;
+
+  /**
+   * Creates a branded OloId with the syntax of the brand.
+   *
+   * @param uri - The values of the identifier or its string representation.
+   * @param options - Optional configuration, see the `OloId` constructor.
+   *
+   * @returns The branded OloId.
+   */
+  create(
+    uri: OloUri<IdentifierProperties, IdentifierValue> | string,
+    options?: Pick<OloIdOptions<IdentifierProperties, Separator>, 'strict'>,
+  ): Branded<OloId<IdentifierProperties, IdentifierValue, Separator>, Brand>;
+
+  /**
+   * Brands an existing OloId. The OloId itself is branded, not a copy of it.
+   *
+   * @param id - The OloId to brand. It needs to have the syntax of the brand and mustn't carry another brand.
+   *
+   * @returns The branded OloId.
+   *
+   * @throws {TypeError} If the OloId has another syntax or carries another brand.
+   */
+  from(id: OloId<string[], string | number, string>): Branded<OloId<IdentifierProperties, IdentifierValue, Separator>, Brand>;
+
+  /**
+   * Typeguard for OloIds carrying the brand. Unbranded OloIds and OloIds of other brands don't pass,
+   * even if they have the same syntax.
+   *
+   * @param obj - input that needs to be checked
+   * @returns true if input is an OloId carrying the brand
+   */
+  is(obj: unknown): obj is Branded<OloId<IdentifierProperties, IdentifierValue, Separator>, Brand>;
+
+  /**
+   * Typeguard for lists of OloIds carrying the brand.
+   *
+   * @param obj - input that needs to be checked
+   * @returns true if input is a list of OloIds carrying the brand
+   */
+  isList(obj: unknown): obj is Branded<OloId<IdentifierProperties, IdentifierValue, Separator>, Brand>[];
+}
+
+/**
+ * Defines a brand for the OloIds of an entity kind: a nominal type (see {@link Branded}) together with a factory
+ * and runtime guards that tell the OloIds of different kinds apart.
+ *
+ * The brand is stored in a non-enumerable property of the OloId, so it doesn't show up in `toJSON()` or `toString()`
+ * and is lost when the OloId is copied, serialized or parsed again.
+ *
+ * @param brand - The name of the brand, e.g. `'User'`.
+ * @param options - Configuration of the brand.
+ * @param options.syntax - The syntax of the branded OloIds.
+ * @param options.registry - The `OloIdSyntax` registry the OloIds are created with. Defaults to the global registry.
+ *
+ * @returns The {@link OloIdBrand}.
+ *
+ * @example
+ * const UserId = defineIdBrand('User', { syntax: ['id'] });
+ * const ArticleId = defineIdBrand('Article', { syntax: ['id'] });
+ * type UserId = ReturnType<typeof UserId.create>;
+ *
+ * const userId = UserId.create('ae123');
+ * console.log(UserId.is(userId)); // Output: true
+ * console.log(ArticleId.is(userId)); // Output: false
+ * console.log(UserId.is(new OloId('ae123', { syntax: ['id'] }))); // Output: false
+ */
+export const defineIdBrand = <
+  Brand extends string,
+  const IdentifierProperties extends readonly string[] = string[],
+  IdentifierValue extends string | number = string | number,
+  Separator extends string = IdSeparator
+>(
+  brand: Brand,
+  { syntax, registry }: { syntax: IdentifierProperties; registry?: OloIdSyntax<string> },
+): OloIdBrand<Brand, [...IdentifierProperties], IdentifierValue, Separator> => {
+  type BrandedId = Branded<OloId<[...IdentifierProperties], IdentifierValue, Separator>, Brand>;
+
+  const oloIdSyntax = registry ?? new OloIdSyntax();
+  const syntaxKey = syntax.join('\u0000');
+
+  const is = (obj: unknown): obj is BrandedId => isOloId(obj) && getBrand(obj) === brand;
+
+  const from = (id: OloId<string[], string | number, string>): BrandedId => {
+    const idBrand = getBrand(id);
+
+    if (id['syntax'].join('\u0000') !== syntaxKey || (idBrand !== undefined && idBrand !== brand)) {
+      throw new TypeError(`"${id.toString()}" can't be branded as ${brand}.`);
+    }
+
+    return (idBrand === brand ? id : Object.defineProperty(id, ID_BRAND, { value: brand })) as unknown as BrandedId;
+  };
+
+  return {
+    brand,
+    create: (uri, options = {}) => from(new OloId(uri, { ...options, syntax: [...syntax], registry: oloIdSyntax }) as OloId),
+    from,
+    is,
+    isList: GetListTypeGuard(is),
+  };
+};
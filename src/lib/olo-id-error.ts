@@ -0,0 +1,48 @@
+import { OloIdIssue } from '../types/index.ts';
+
+/**
+ * Error thrown when an identifier doesn't conform to its syntax definition.
+ *
+ * Instead of a single message, an `OloIdError` carries the full list of {@link OloIdIssue}s
+ * found for the identifier, so that callers can report every problem at once
+ * (e.g. as structured API errors).
+ *
+ * @example
+ * try {
+ *   new OloId('article/abc', { syntax: ['type', 'id'] }); // 'id' declared as uuid
+ * } catch (error) {
+ *   if (isOloIdError(error)) {
+ *     console.log(error.issues);
+ *     // Output: [{ code: 'INVALID_TYPE', property: 'id', value: 'abc', message: 'Value of property "id" is not a valid uuid.' }]
+ *   }
+ * }
+ */
+export class OloIdError extends Error {
+  /**
+   * The issues found for the identifier.
+   */
+  public readonly issues: OloIdIssue[];
+
+  /**
+   * Creates an instance of OloIdError.
+   *
+   * @constructor
+   *
+   * @param issues - The issues found for the identifier. The message of the error is
+   *   composed of the messages of all issues.
+   */
+  constructor(issues: OloIdIssue[]) {
+    super(issues.map(issue => issue.message).join(' '));
+    this.name = 'OloIdError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Typeguard for OloIdError.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a OloIdError
+ */
+export const isOloIdError = (obj: unknown): obj is OloIdError =>
+  obj instanceof OloIdError;
@@ -0,0 +1,32 @@
+import { generateNanoId, generateUlid, generateUuidV4, generateUuidV7, slugify } from './olo-id-generator.ts';
+
+describe('OloId generators', () => {
+  it('should generate uuids', () => {
+    expect(generateUuidV4()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(generateUuidV4()).not.toBe(generateUuidV4());
+
+    const uuid = generateUuidV7(new Date('2024-01-01T00:00:00.000Z'));
+    expect(uuid).toMatch(/^018cc251-f400-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(generateUuidV7(new Date('2024-01-01T00:00:00.001Z')) > uuid).toBe(true);
+  });
+
+  it('should generate ulids', () => {
+    const ulid = generateUlid(new Date(1469918176385));
+
+    expect(ulid).toMatch(/^01ARYZ6S41[0-9A-HJKMNP-TV-Z]{16}$/);
+    expect(generateUlid(new Date(1469918176386)) > ulid).toBe(true);
+    expect(generateUlid()).not.toBe(generateUlid());
+  });
+
+  it('should generate nanoids', () => {
+    expect(generateNanoId()).toMatch(/^[A-Za-z0-9_-]{21}$/);
+    expect(generateNanoId(10)).toHaveLength(10);
+    expect(generateNanoId()).not.toBe(generateNanoId());
+  });
+
+  it('should create slugs', () => {
+    expect(slugify('Die Bücher von Albert Einstein!')).toBe('die-bucher-von-albert-einstein');
+    expect(slugify('  Hello -- World  ')).toBe('hello-world');
+    expect(slugify('!?')).toBe('');
+  });
+});
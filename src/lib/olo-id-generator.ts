@@ -0,0 +1,154 @@
+/**
+ * The alphabet of ULIDs (Crockford's Base32, without `I`, `L`, `O` and `U`).
+ */
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * The URL-safe alphabet of nanoid-style strings.
+ */
+const NANOID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789_-';
+
+/**
+ * Returns cryptographically strong random bytes from the Web Crypto API, which is available in every runtime.
+ *
+ * @param size - The number of bytes.
+ *
+ * @returns The random bytes.
+ */
+const getRandomBytes = (size: number): Uint8Array => globalThis.crypto.getRandomValues(new Uint8Array(size));
+
+/**
+ * Generates a random UUID (version 4).
+ *
+ * @returns The UUID in its canonical 8-4-4-4-12 hex representation.
+ *
+ * @example
+ * console.log(generateUuidV4()); // Output: "3b241101-e2bb-4255-8caf-4136c566a962"
+ */
+export const generateUuidV4 = (): string => globalThis.crypto.randomUUID();
+
+/**
+ * Generates a time-ordered UUID (version 7): a 48 bit millisecond timestamp followed by random bits.
+ *
+ * @param time - The point in time encoded in the UUID. Defaults to the current time.
+ *
+ * @returns The UUID in its canonical 8-4-4-4-12 hex representation.
+ *
+ * @example
+ * console.log(generateUuidV7(new Date('2024-01-01T00:00:00.000Z'))); // Output: "018cc251-f400-7a8b-9f3c-4d2e1b0a9c8d"
+ */
+export const generateUuidV7 = (time: Date = new Date()): string => {
+  const bytes = getRandomBytes(16);
+  let timestamp = time.getTime();
+
+  for (let index = 5; index >= 0; index -= 1) {
+    bytes[index] = timestamp % 256;
+    timestamp = Math.floor(timestamp / 256);
+  }
+  bytes[6] = 0x70 | ((bytes[6] ?? 0) & 0x0f);
+  bytes[8] = 0x80 | ((bytes[8] ?? 0) & 0x3f);
+
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join('-');
+};
+
+/**
+ * Generates a ULID: a 48 bit millisecond timestamp followed by 80 random bits, encoded in 26 characters
+ * of Crockford's Base32, so ULIDs sort lexicographically by time.
+ *
+ * @param time - The point in time encoded in the ULID. Defaults to the current time.
+ *
+ * @returns The ULID.
+ *
+ * @example
+ * console.log(generateUlid()); // Output: "01ARZ3NDEKTSV4RRFFQ69G5FAV"
+ */
+export const generateUlid = (time: Date = new Date()): string => {
+  let timestamp = time.getTime();
+  const timeChars = Array.from({ length: 10 }, () => {
+    const char = ULID_ALPHABET[timestamp % 32];
+    timestamp = Math.floor(timestamp / 32);
+    return char;
+  }).reverse();
+
+  return [...timeChars, ...Array.from(getRandomBytes(16), byte => ULID_ALPHABET[byte & 0x1f])].join('');
+};
+
+/**
+ * Generates a random, URL-safe string in the style of nanoid.
+ *
+ * @param size - The number of characters. Defaults to 21, which gives a collision probability comparable to UUIDs.
+ *
+ * @returns The random string.
+ *
+ * @example
+ * console.log(generateNanoId(10)); // Output: "V1StGXR8_Z"
+ */
+export const generateNanoId = (size: number = 21): string =>
+  Array.from(getRandomBytes(size), byte => NANOID_ALPHABET[byte & 0x3f]).join('');
+
+/**
+ * Creates a slug from a label: lowercase alphanumeric words joined by single dashes, without diacritics.
+ *
+ * @param label - The label, e.g. a title.
+ *
+ * @returns The slug. Empty if the label doesn't contain any alphanumeric characters.
+ *
+ * @example
+ * console.log(slugify('Die Bücher von Albert Einstein!')); // Output: "die-bucher-von-albert-einstein"
+ */
+export const slugify = (label: string): string =>
+  label
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Extracts the timestamp of a version 7 UUID.
+ *
+ * @param uuid - The UUID.
+ *
+ * @returns The point in time encoded in the UUID, or `undefined` if the value isn't a version 7 UUID.
+ *
+ * @example
+ * console.log(getUuidV7Time('018cc251-f400-7a8b-9f3c-4d2e1b0a9c8d')); // Output: 2024-01-01T00:00:00.000Z
+ */
+export const getUuidV7Time = (uuid: string): Date | undefined =>
+  /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(uuid)
+    ? new Date(parseInt(uuid.slice(0, 8) + uuid.slice(9, 13), 16))
+    : undefined;
+
+/**
+ * Extracts the timestamp of a ULID.
+ *
+ * @param ulid - The ULID.
+ *
+ * @returns The point in time encoded in the ULID, or `undefined` if the value isn't a ULID.
+ *
+ * @example
+ * console.log(getUlidTime('01ARYZ6S41TSV4RRFFQ69G5FAV')); // Output: 2016-07-30T22:36:16.385Z
+ */
+export const getUlidTime = (ulid: string): Date | undefined =>
+  /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i.test(ulid)
+    ? new Date(Array.from(ulid.slice(0, 10).toUpperCase()).reduce((time, char) => time * 32 + ULID_ALPHABET.indexOf(char), 0))
+    : undefined;
+
+/**
+ * Extracts the timestamp of a snowflake-like id: a number holding a millisecond timestamp above worker and sequence bits.
+ *
+ * @param id - The id, as number or numeric string. Pass ids above `Number.MAX_SAFE_INTEGER` as strings.
+ * @param options - Optional configuration.
+ * @param options.epoch - The point in time (in milliseconds since 1970) the timestamps are counted from. Defaults to `0`.
+ * @param options.shift - The number of bits below the timestamp. Defaults to `22`.
+ *
+ * @returns The point in time encoded in the id, or `undefined` if the value isn't a non-negative integer.
+ *
+ * @example
+ * console.log(getSnowflakeTime('1541815603606036480', { epoch: 1288834974657 })); // Output: 2022-06-28T16:07:40.105Z
+ */
+export const getSnowflakeTime = (id: string | number, { epoch = 0, shift = 22 }: { epoch?: number; shift?: number } = {}): Date | undefined =>
+  /^\d+$/.test(String(id))
+    ? new Date(Number(BigInt(id) >> BigInt(shift)) + epoch)
+    : undefined;
@@ -0,0 +1,130 @@
+import { OloId } from './olo-id.ts';
+import { OloIdIndex, isOloIdIndex } from './olo-id-index.ts';
+import { OloIdSet } from './olo-id-set.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+
+describe('OloIdIndex', () => {
+  const registry = new OloIdSyntax([
+    ['id'],
+    { syntax: ['username', 'domain'], separator: '@', properties: { domain: { normalize: 'lowercase' } } },
+  ], { scoped: true });
+
+  const createUser = (name: string, id: string, username: string, domain = 'oloteo.com') => ({
+    name,
+    identification: new OloIdSet({ id, username, domain }, { registry }),
+  });
+
+  const albert = createUser('Albert', 'ae123', 'albert');
+  const robert = createUser('Robert', 'ro456', 'robert');
+
+  it('should look up entities by every syntax', () => {
+    const index = new OloIdIndex([albert, robert], { registry });
+
+    expect(index.get('ae123', { syntax: ['id'] })).toBe(albert);
+    expect(index.get('robert@Oloteo.com', { syntax: ['username', 'domain'] })).toBe(robert);
+    expect(index.get({ username: 'albert', domain: 'oloteo.com' })).toBe(albert);
+    expect(index.get(new OloId({ id: 'ro456' }, { registry }))).toBe(robert);
+    expect(index.get(new OloIdSet({ id: 'unknown', username: 'robert', domain: 'oloteo.com' }, { registry }))).toBe(robert);
+    expect(index.get('unknown', { syntax: ['id'] })).toBeUndefined();
+    expect(index.has('ae123', { syntax: ['id'] })).toBe(true);
+  });
+
+  it('should look up strings with every registered syntax', () => {
+    const index = new OloIdIndex([albert, robert], { registry });
+
+    expect(index.get('ro456')).toBe(robert);
+    expect(index.get('albert@oloteo.com')).toBe(albert);
+    expect(index.get('nobody@oloteo.com')).toBeUndefined();
+  });
+
+  it('should not index OloIds with missing values', () => {
+    const anonymous = { identification: new OloIdSet({ id: 'an789' }, { registry }) };
+    const index = new OloIdIndex([anonymous], { registry });
+
+    expect(index.get('an789', { syntax: ['id'] })).toBe(anonymous);
+    expect(index.get({ username: 'UNDEFINED', domain: 'UNDEFINED' })).toBeUndefined();
+  });
+
+  it('should not match malformed identifiers', () => {
+    const typedRegistry = new OloIdSyntax([{ syntax: ['id'], properties: { id: 'integer' } }], { scoped: true });
+    const entity = { identification: new OloIdSet({ id: 1 }, { registry: typedRegistry }) };
+    const index = new OloIdIndex([entity], { registry: typedRegistry });
+
+    expect(index.get({ id: 1 })).toBe(entity);
+    expect(index.get({ id: 'abc' })).toBeUndefined();
+    expect(index.has({ id: 'abc' })).toBe(false);
+  });
+
+  it('should report conflicts', () => {
+    const albertDuplicate = createUser('Albert 2', 'ae999', 'albert');
+    const index = new OloIdIndex([albert, robert], { registry });
+
+    const conflicts = index.add(albertDuplicate);
+    expect(conflicts).toEqual([{ key: 'domain=oloteo.com&username=albert', indexed: albert, conflicting: albertDuplicate }]);
+    expect(index.getConflicts()).toEqual(conflicts);
+    expect(index.get('albert@oloteo.com')).toBe(albert);
+    expect(index.get('ae999', { syntax: ['id'] })).toBe(albertDuplicate);
+  });
+
+  it('should remove entities and pass on their identities', () => {
+    const albertDuplicate = createUser('Albert 2', 'ae999', 'albert');
+    const index = new OloIdIndex([albert, albertDuplicate, robert], { registry });
+
+    expect(index.remove(albert)).toBe(true);
+    expect(index.remove(albert)).toBe(false);
+    expect(index.get('ae123', { syntax: ['id'] })).toBeUndefined();
+    expect(index.get('albert@oloteo.com')).toBe(albertDuplicate);
+    expect(index.getConflicts()).toEqual([]);
+    expect(index.getEntities()).toEqual([albertDuplicate, robert]);
+  });
+
+  it('should re-index entities added again', () => {
+    const index = new OloIdIndex([albert], { registry });
+
+    expect(index.add(albert)).toEqual([]);
+    expect(index.getEntities()).toEqual([albert]);
+    expect(index.get('ae123', { syntax: ['id'] })).toBe(albert);
+  });
+
+  it('should re-index entities in place', () => {
+    const albertDuplicate = createUser('Albert 2', 'ae999', 'albert');
+    const renamed = createUser('Renamed', 'rn321', 'renamed');
+    const index = new OloIdIndex([renamed, albert, albertDuplicate, robert], { registry });
+    const conflicts = index.getConflicts();
+
+    expect(conflicts).toHaveLength(1);
+    expect(index.add(albertDuplicate)).toEqual(conflicts);
+    expect(index.getConflicts()).toEqual(conflicts);
+
+    renamed.identification = new OloIdSet({ id: 'rn321', username: 'robert', domain: 'oloteo.com' }, { registry });
+
+    expect(index.add(renamed)).toEqual([{ key: 'domain=oloteo.com&username=robert', indexed: robert, conflicting: renamed }]);
+    expect(index.getEntities()).toEqual([renamed, albert, albertDuplicate, robert]);
+    expect(index.getConflicts()).toEqual([...conflicts, { key: 'domain=oloteo.com&username=robert', indexed: robert, conflicting: renamed }]);
+    expect(index.get('rn321', { syntax: ['id'] })).toBe(renamed);
+    expect(index.get('renamed@oloteo.com')).toBeUndefined();
+  });
+
+  it('should pass on identities lost when re-indexing', () => {
+    const albertDuplicate = createUser('Albert 2', 'ae999', 'albert');
+    const moving = createUser('Albert', 'ae123', 'albert');
+    const index = new OloIdIndex([moving, albertDuplicate], { registry });
+
+    moving.identification = new OloIdSet({ id: 'ae123', username: 'albert3', domain: 'oloteo.com' }, { registry });
+
+    expect(index.add(moving)).toEqual([]);
+    expect(index.get('albert@oloteo.com')).toBe(albertDuplicate);
+    expect(index.get('albert3@oloteo.com')).toBe(moving);
+    expect(index.getConflicts()).toEqual([]);
+    expect(index.getEntities()).toEqual([moving, albertDuplicate]);
+  });
+
+  it('should reject entities without OloId identification', () => {
+    expect(() => new OloIdIndex([{ identification: { isSame: () => true } } as never])).toThrow(TypeError);
+  });
+
+  it('should check if an object is an OloIdIndex', () => {
+    expect(isOloIdIndex(new OloIdIndex([], { registry }))).toBe(true);
+    expect(isOloIdIndex({})).toBe(false);
+  });
+});
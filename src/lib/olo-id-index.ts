@@ -0,0 +1,287 @@
+import { ID_PROP_UNDEFINED, IdentifiableEntity, OloIdIndexConflict, OloIdentifier, OloUri } from '../types/index.ts';
+
+import { OloId, isOloId } from './olo-id.ts';
+import { isOloIdError } from './olo-id-error.ts';
+import { OloIdSet, isOloIdSet } from './olo-id-set.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+
+/**
+ * Counts the segments of a string identifier in a syntax, without its prefix and suffix.
+ *
+ * @param identifier - The string identifier.
+ * @param definition - The definition of the syntax.
+ * @returns The number of segments.
+ */
+const getSegmentCount = (identifier: string, { separator, prefix, suffix }: { separator: string; prefix: string; suffix: string }): number => {
+  const start = prefix && identifier.startsWith(prefix) ? prefix.length : 0;
+  const end = suffix && identifier.endsWith(suffix) && identifier.length - suffix.length >= start ? identifier.length - suffix.length : identifier.length;
+
+  return identifier.slice(start, end).split(separator).length;
+};
+
+/**
+ * A collection of {@link IdentifiableEntity} objects indexed by every OloId of their identification.
+ *
+ * Each OloId of an entity (one for every registered syntax of its `OloIdSet`) is stored under its
+ * canonical form (see {@link OloId.canonicalize}), so that entities can be looked up by any of their
+ * identities in constant time per syntax, instead of comparing against every entity with `isSame`.
+ *
+ * If two entities share an identity, the entity added first keeps it and an {@link OloIdIndexConflict}
+ * is recorded for the other one.
+ *
+ * @template Entity - The type of the indexed entities.
+ *
+ * @example
+ * new OloIdSyntax().setSyntaxes([['id'], ['username', 'domain']]);
+ *
+ * const index = new OloIdIndex([
+ *   { identification: new OloIdSet({ id: 'ae123', username: 'albert', domain: 'oloteo.com' }), name: 'Albert' },
+ *   { identification: new OloIdSet({ id: 'ro456', username: 'robert', domain: 'oloteo.com' }), name: 'Robert' },
+ * ]);
+ *
+ * console.log(index.get('ae123', { syntax: ['id'] })?.name); // Output: 'Albert'
+ * console.log(index.get({ username: 'robert', domain: 'oloteo.com' })?.name); // Output: 'Robert'
+ */
+export class OloIdIndex<Entity extends IdentifiableEntity = IdentifiableEntity> {
+  /**
+   * Instance of OloIdSyntax used to resolve the syntaxes of looked up strings and OloUris.
+   *
+   * @private
+   */
+  private oloIdSyntax: OloIdSyntax<string>;
+
+  /**
+   * The indexed entities, keyed by the canonical forms of their OloIds.
+   *
+   * @private
+   */
+  private entities: Map<string, Entity> = new Map();
+
+  /**
+   * The keys each added entity is indexed under.
+   *
+   * @private
+   */
+  private keys: Map<Entity, string[]> = new Map();
+
+  /**
+   * The conflicts found between the added entities.
+   *
+   * @private
+   */
+  private conflicts: OloIdIndexConflict<Entity>[] = [];
+
+  /**
+   * Creates an instance of OloIdIndex.
+   *
+   * @constructor
+   *
+   * @param entities - The entities to add to the index initially.
+   * @param options - Optional configuration.
+   * @param options.registry - The `OloIdSyntax` registry used to resolve the syntaxes of looked up strings and OloUris.
+   *   Defaults to the global registry.
+   *
+   * @throws {TypeError} If the identification of an entity is neither an OloId nor an OloIdSet.
+   */
+  constructor(entities: Entity[] = [], { registry }: { registry?: OloIdSyntax<string> } = {}) {
+    this.oloIdSyntax = registry ?? new OloIdSyntax();
+    entities.forEach(entity => this.add(entity));
+  }
+
+  /**
+   * Adds an entity to the index. Entities that were added before are re-indexed in place: they keep their position
+   * and the identities and conflicts that still apply, identities they lost are passed on like by `remove()`.
+   *
+   * @param entity - The entity to add.
+   *
+   * @returns The conflicts found for the entity, empty if none of its identities is taken by another entity.
+   *
+   * @throws {TypeError} If the identification of the entity is neither an OloId nor an OloIdSet.
+   *
+   * @example
+   * const conflicts = index.add({ identification: new OloIdSet({ id: 'ae123', username: 'albert2', domain: 'oloteo.com' }) });
+   * console.log(conflicts.map(conflict => conflict.key)); // Output: ['id=ae123']
+   */
+  public add(entity: Entity): OloIdIndexConflict<Entity>[] {
+    if (!isOloId(entity.identification) && !isOloIdSet(entity.identification)) {
+      throw new TypeError('The identification of an indexed entity needs to be an OloId or an OloIdSet.');
+    }
+
+    const keys = this.getKeys(entity.identification);
+    const previousKeys = this.keys.get(entity) ?? [];
+
+    this.conflicts = this.conflicts.filter(conflict => conflict.conflicting !== entity || keys.includes(conflict.key));
+    this.releaseKeys(entity, previousKeys.filter(key => !keys.includes(key)));
+
+    const heldKeys = previousKeys.filter(key => keys.includes(key));
+
+    keys.forEach(
+      (key) => {
+        const indexed = this.entities.get(key);
+
+        if (!indexed) {
+          this.entities.set(key, entity);
+          heldKeys.push(key);
+        } else if (indexed !== entity && !this.conflicts.some(conflict => conflict.key === key && conflict.conflicting === entity)) {
+          this.conflicts.push({ key, indexed, conflicting: entity });
+        }
+      }
+    );
+
+    this.keys.set(entity, heldKeys);
+
+    return this.conflicts.filter(conflict => conflict.conflicting === entity);
+  }
+
+  /**
+   * Removes an entity from the index. Identities of the entity taken by conflicting entities
+   * are passed on to the first of them.
+   *
+   * @param entity - The entity to remove.
+   *
+   * @returns `true` if the entity was part of the index.
+   */
+  public remove(entity: Entity): boolean {
+    const keys = this.keys.get(entity);
+    if (!keys) {
+      return false;
+    }
+
+    this.keys.delete(entity);
+    this.conflicts = this.conflicts.filter(conflict => conflict.conflicting !== entity);
+    this.releaseKeys(entity, keys);
+
+    return true;
+  }
+
+  /**
+   * Looks up the entity identified by an identifier.
+   *
+   * @param identifier - The identifier to look up:
+   *   - An `OloId` or `OloIdSet` (any of the OloIds of a set may match).
+   *   - An `OloUri`, interpreted with all matching registered syntaxes like by `OloIdSet`.
+   *   - A string, parsed with `options.syntax`, or with every registered syntax if no syntax is given.
+   * @param options - Optional configuration.
+   * @param options.syntax - The syntax of a string identifier.
+   *
+   * @returns The entity, or `undefined` if no entity is indexed for the identifier.
+   *
+   * @example
+   * console.log(index.get('albert/oloteo.com', { syntax: ['username', 'domain'] })?.name); // Output: 'Albert'
+   */
+  public get(identifier: string | OloUri | OloIdentifier | OloIdentifier<string[][]>, { syntax }: { syntax?: string | string[] } = {}): Entity | undefined {
+    return this.getKeys(identifier, { syntax })
+      .map(key => this.entities.get(key))
+      .find(entity => !!entity);
+  }
+
+  /**
+   * Checks whether an entity is indexed for an identifier.
+   *
+   * @param identifier - The identifier to look up, see `get()`.
+   * @param options - Optional configuration, see `get()`.
+   * @param options.syntax - The syntax of a string identifier.
+   *
+   * @returns `true` if an entity is indexed for the identifier.
+   */
+  public has(identifier: string | OloUri | OloIdentifier | OloIdentifier<string[][]>, options: { syntax?: string | string[] } = {}): boolean {
+    return this.get(identifier, options) !== undefined;
+  }
+
+  /**
+   * Retrieves all entities added to the index.
+   *
+   * @returns The entities in the order they were added.
+   */
+  public getEntities(): Entity[] {
+    return Array.from(this.keys.keys());
+  }
+
+  /**
+   * Retrieves the conflicts found between the entities of the index.
+   *
+   * @returns The conflicts in the order they were found.
+   */
+  public getConflicts(): OloIdIndexConflict<Entity>[] {
+    return [...this.conflicts];
+  }
+
+  /**
+   * Releases identities of an entity, passing each one on to the first entity conflicting on it.
+   *
+   * @param entity - The entity releasing the identities.
+   * @param keys - The keys of the released identities.
+   *
+   * @private
+   */
+  private releaseKeys(entity: Entity, keys: string[]): void {
+    keys.forEach(key => this.entities.delete(key));
+
+    const released = this.conflicts.filter(conflict => conflict.indexed === entity && keys.includes(conflict.key));
+    this.conflicts = this.conflicts.filter(conflict => !released.includes(conflict));
+
+    released.forEach(
+      ({ key, conflicting }) => {
+        const indexed = this.entities.get(key);
+
+        if (!indexed) {
+          this.entities.set(key, conflicting);
+          this.keys.get(conflicting)?.push(key);
+        } else {
+          this.conflicts.push({ key, indexed, conflicting });
+        }
+      }
+    );
+  }
+
+  /**
+   * Determines the keys an identifier is indexed or looked up with: the canonical forms of its OloIds.
+   * OloIds with missing values are left out, objects that are invalid for the declared property types have no keys.
+   *
+   * @param identifier - The identifier.
+   * @param options - Optional configuration.
+   * @param options.syntax - The syntax of a string identifier.
+   *
+   * @returns The keys of the identifier.
+   *
+   * @private
+   */
+  private getKeys(identifier: string | OloUri | OloIdentifier | OloIdentifier<string[][]>, { syntax }: { syntax?: string | string[] } = {}): string[] {
+    let ids: OloId[];
+
+    if (isOloId(identifier)) {
+      ids = [identifier];
+    } else if (isOloIdSet(identifier)) {
+      ids = Object.values(identifier['uri']) as OloId[];
+    } else if (typeof identifier === 'string') {
+      // Strings only parse with syntaxes of as many properties as they have segments, so the others aren't tried.
+      ids = (syntax ? [syntax] : this.oloIdSyntax.getDefinitions()
+        .filter(definition => getSegmentCount(identifier, definition) === definition.syntax.length)
+        .map(definition => definition.syntax))
+        .map(idSyntax => OloId.tryParse(identifier, { syntax: idSyntax, registry: this.oloIdSyntax }).id)
+        .filter(id => !!id);
+    } else {
+      try {
+        ids = Object.values(new OloIdSet(identifier as OloUri, { registry: this.oloIdSyntax })['uri']) as OloId[];
+      } catch (error) {
+        if (!isOloIdError(error)) {
+          throw error;
+        }
+        ids = [];
+      }
+    }
+
+    return ids
+      .filter(id => Object.values(id.toJSON()).every(value => value !== ID_PROP_UNDEFINED))
+      .map(id => id.canonicalize());
+  }
+}
+
+/**
+ * Typeguard for OloIdIndex.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a OloIdIndex
+ */
+export const isOloIdIndex = (obj: unknown): obj is OloIdIndex =>
+  obj instanceof OloIdIndex;
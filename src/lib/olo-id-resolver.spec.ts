@@ -0,0 +1,91 @@
+import { Format } from '../types/index.ts';
+import { OloDescriptor } from './olo-descriptor.ts';
+import { OloId } from './olo-id.ts';
+import { OloIdResolver, isOloIdResolver } from './olo-id-resolver.ts';
+import { OloIdSet } from './olo-id-set.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+
+describe('OloIdResolver', () => {
+  const registry = new OloIdSyntax([['id'], ['username', 'domain'], ['ssn']], { scoped: true });
+
+  const createEntity = (name: string, uri: Record<string, string | number>) => ({
+    name,
+    identification: new OloIdSet(uri, { registry }),
+  });
+
+  it('should cluster entities transitively', () => {
+    const a = createEntity('a', { id: 'ae123' });
+    const b = createEntity('b', { id: 'ae123', username: 'albert', domain: 'oloteo.com' });
+    const c = createEntity('c', { username: 'albert', domain: 'oloteo.com', ssn: '42' });
+    const d = createEntity('d', { id: 'ro456' });
+    const e = createEntity('e', { ssn: '42' });
+
+    const clusters = new OloIdResolver([a, d, b, e, c], { registry }).getClusters();
+
+    expect(clusters.map(cluster => cluster.entities.map(entity => entity.name))).toEqual([['a', 'b', 'e', 'c'], ['d']]);
+    expect(clusters[0]?.identification.toJSON()).toEqual({ id: 'ae123', username: 'albert', domain: 'oloteo.com', ssn: '42' });
+    expect(clusters[0]?.identification.isSame('42', { syntax: ['ssn'] })).toBe(true);
+    expect(clusters[0]?.contradictions).toEqual([]);
+    expect(clusters[1]?.identification.toJSON()).toEqual({ id: 'ro456' });
+  });
+
+  it('should report contradictions', () => {
+    const a = createEntity('a', { id: 'ae123', username: 'albert', domain: 'oloteo.com' });
+    const b = createEntity('b', { id: 'ae123', username: 'albert.einstein', domain: 'oloteo.com' });
+    const c = createEntity('c', { id: 'ae123', ssn: 42 });
+    const d = createEntity('d', { username: 'albert.einstein', domain: 'oloteo.com', ssn: '42' });
+
+    const [cluster] = new OloIdResolver([a, b, c, d], { registry }).getClusters();
+
+    expect(cluster?.entities).toEqual([a, b, c, d]);
+    expect(cluster?.identification.toJSON()).toEqual({ id: 'ae123', username: 'albert', domain: 'oloteo.com', ssn: 42 });
+    expect(cluster?.contradictions).toEqual([{
+      property: 'username',
+      values: [{ value: 'albert', entities: [a] }, { value: 'albert.einstein', entities: [b, d] }],
+    }]);
+  });
+
+  it('should merge the OloIds of descriptors and report conflicts within a set', () => {
+    const a = { name: 'a', identification: new OloDescriptor({ uri: { id: 'ae123', ssn: '42' }, format: Format.person }, { registry }) };
+    const b = { name: 'b', identification: new OloIdSet({ id: new OloId({ id: 'ae123' }, { registry }), ssn: new OloId({ ssn: '43' }, { registry }) }) };
+
+    const [cluster] = new OloIdResolver([a, b], { registry }).getClusters();
+
+    expect(cluster?.entities).toEqual([a, b]);
+    expect(cluster?.identification.toJSON()).toEqual({ id: 'ae123', ssn: '42' });
+    expect(cluster?.contradictions).toEqual([{
+      property: 'ssn',
+      values: [{ value: '42', entities: [a] }, { value: '43', entities: [b] }],
+    }]);
+
+    const overlapping = new OloIdSyntax([['id'], ['type', 'id']], { scoped: true });
+    const c = {
+      name: 'c',
+      identification: new OloIdSet({
+        id: new OloId({ id: 'ae123' }, { registry: overlapping }),
+        'type/id': new OloId({ type: 'user', id: 'ae124' }, { registry: overlapping }),
+      }),
+    };
+
+    expect(new OloIdResolver([c], { registry: overlapping }).getClusters()[0]?.contradictions).toEqual([{
+      property: 'id',
+      values: [{ value: 'ae123', entities: [c] }, { value: 'ae124', entities: [c] }],
+    }]);
+  });
+
+  it('should resolve entities added later', () => {
+    const a = createEntity('a', { id: 'ae123' });
+    const b = createEntity('b', { username: 'albert', domain: 'oloteo.com' });
+    const resolver = new OloIdResolver([a, b], { registry });
+
+    expect(resolver.getClusters()).toHaveLength(2);
+
+    resolver.add(createEntity('c', { id: 'ae123', username: 'albert', domain: 'oloteo.com' }));
+    expect(resolver.getClusters().map(cluster => cluster.entities.map(entity => entity.name))).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('should check if an object is an OloIdResolver', () => {
+    expect(isOloIdResolver(new OloIdResolver([], { registry }))).toBe(true);
+    expect(isOloIdResolver({})).toBe(false);
+  });
+});
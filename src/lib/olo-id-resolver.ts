@@ -0,0 +1,190 @@
+import { ID_PROP_UNDEFINED, IdentifiableEntity, OloIdCluster, OloIdContradiction, OloIdentifier, OloUri } from '../types/index.ts';
+
+import { OloId, isOloId } from './olo-id.ts';
+import { OloIdIndex } from './olo-id-index.ts';
+import { OloIdSet, isOloIdSet } from './olo-id-set.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+
+/**
+ * Returns the OloIds of an identification: the OloId itself, or the OloIds of an OloIdSet
+ * (including descriptors, references and resources).
+ *
+ * @param identification - The identification of an entity.
+ * @returns The OloIds.
+ *
+ * @private
+ */
+const getIds = (identification: OloIdentifier): OloId[] =>
+  isOloIdSet(identification)
+    ? Object.values(identification['uri']) as OloId[]
+    : isOloId(identification) ? [identification] : [];
+
+/**
+ * Resolves the identities of a list of {@link IdentifiableEntity} objects whose identifications
+ * only partly overlap, e.g. when importing records from several sources.
+ *
+ * Entities sharing an OloId are grouped into one {@link OloIdCluster}, transitively: if A matches B
+ * by `id` and B matches C by `username/domain`, all three end up in the same cluster. For every cluster
+ * a merged `OloIdSet` is produced and properties holding different values are reported as contradictions.
+ *
+ * @template Entity - The type of the resolved entities.
+ *
+ * @example
+ * new OloIdSyntax().setSyntaxes([['id'], ['username', 'domain']]);
+ *
+ * const resolver = new OloIdResolver([
+ *   { identification: new OloIdSet({ id: 'ae123' }) },
+ *   { identification: new OloIdSet({ id: 'ae123', username: 'albert', domain: 'oloteo.com' }) },
+ *   { identification: new OloIdSet({ username: 'albert', domain: 'oloteo.com' }) },
+ * ]);
+ *
+ * const [cluster] = resolver.getClusters();
+ * console.log(cluster.entities.length); // Output: 3
+ * console.log(cluster.identification.toJSON()); // Output: { id: 'ae123', username: 'albert', domain: 'oloteo.com' }
+ */
+export class OloIdResolver<Entity extends IdentifiableEntity = IdentifiableEntity> {
+  /**
+   * Instance of OloIdSyntax used to create the merged identifications.
+   *
+   * @private
+   */
+  private oloIdSyntax: OloIdSyntax<string>;
+
+  /**
+   * The index holding the added entities, whose conflicts link entities sharing an OloId.
+   *
+   * @private
+   */
+  private index: OloIdIndex<Entity>;
+
+  /**
+   * Creates an instance of OloIdResolver.
+   *
+   * @constructor
+   *
+   * @param entities - The entities to resolve.
+   * @param options - Optional configuration.
+   * @param options.registry - The `OloIdSyntax` registry used to create the merged identifications. Defaults to the global registry.
+   *
+   * @throws {TypeError} If the identification of an entity is neither an OloId nor an OloIdSet.
+   */
+  constructor(entities: Entity[] = [], { registry }: { registry?: OloIdSyntax<string> } = {}) {
+    this.oloIdSyntax = registry ?? new OloIdSyntax();
+    this.index = new OloIdIndex(entities, { registry: this.oloIdSyntax });
+  }
+
+  /**
+   * Adds an entity to resolve.
+   *
+   * @param entity - The entity to add.
+   *
+   * @throws {TypeError} If the identification of the entity is neither an OloId nor an OloIdSet.
+   */
+  public add(entity: Entity): void {
+    this.index.add(entity);
+  }
+
+  /**
+   * Groups the added entities into clusters of entities sharing an identity, directly or transitively.
+   *
+   * @returns The clusters in the order of their first entity. Entities without any shared identity form a cluster of their own.
+   *
+   * @example
+   * resolver.getClusters().forEach(({ entities, identification, contradictions }) => {
+   *   if (contradictions.length === 0) {
+   *     save(merge(entities), identification);
+   *   }
+   * });
+   */
+  public getClusters(): OloIdCluster<Entity>[] {
+    const entities = this.index.getEntities();
+    const order = new Map(entities.map((entity, position) => [entity, position]));
+    const parents = new Map(entities.map(entity => [entity, entity]));
+
+    const find = (entity: Entity): Entity => {
+      const parent = parents.get(entity) ?? entity;
+      if (parent === entity) {
+        return entity;
+      }
+
+      const root = find(parent);
+      parents.set(entity, root);
+      return root;
+    };
+
+    this.index.getConflicts().forEach(
+      ({ indexed, conflicting }) => {
+        const [first, second] = [find(indexed), find(conflicting)]
+          .sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0)) as [Entity, Entity];
+        parents.set(second, first);
+      }
+    );
+
+    const clusters = entities.reduce(
+      (result, entity) => {
+        const root = find(entity);
+        result.set(root, [...(result.get(root) ?? []), entity]);
+        return result;
+      },
+      new Map<Entity, Entity[]>(),
+    );
+
+    return Array.from(clusters.values()).map(clusterEntities => this.merge(clusterEntities));
+  }
+
+  /**
+   * Merges the identifications of the entities of a cluster.
+   *
+   * @param entities - The entities of the cluster.
+   *
+   * @returns The cluster with its merged identification and contradictions.
+   *
+   * @private
+   */
+  private merge(entities: Entity[]): OloIdCluster<Entity> {
+    const values = new Map<string, OloIdContradiction<Entity>['values']>();
+
+    entities.forEach(
+      (entity) => {
+        getIds(entity.identification).forEach(id => Object.entries(id['uri'] as OloUri).forEach(
+          ([property, value]) => {
+            if (value === ID_PROP_UNDEFINED) {
+              return;
+            }
+
+            const propertyValues = values.get(property) ?? [];
+            const existing = propertyValues.find(item => String(item.value) === String(value));
+
+            if (!existing) {
+              propertyValues.push({ value, entities: [entity] });
+            } else if (!existing.entities.includes(entity)) {
+              existing.entities.push(entity);
+            }
+            values.set(property, propertyValues);
+          }
+        ));
+      }
+    );
+
+    const uri = Object.fromEntries(
+      Array.from(values.entries()).map(([property, propertyValues]) => [property, propertyValues[0]?.value]),
+    ) as OloUri;
+
+    return {
+      entities,
+      identification: new OloIdSet(uri, { registry: this.oloIdSyntax }),
+      contradictions: Array.from(values.entries())
+        .filter(([, propertyValues]) => propertyValues.length > 1)
+        .map(([property, propertyValues]) => ({ property, values: propertyValues })),
+    };
+  }
+}
+
+/**
+ * Typeguard for OloIdResolver.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a OloIdResolver
+ */
+export const isOloIdResolver = (obj: unknown): obj is OloIdResolver =>
+  obj instanceof OloIdResolver;
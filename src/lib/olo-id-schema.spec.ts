@@ -0,0 +1,41 @@
+import { Format } from '../types/index.ts';
+import { OloDescriptor } from './olo-descriptor.ts';
+import { OloId } from './olo-id.ts';
+import { OloIdSet } from './olo-id-set.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+import { defineIdSchema } from './olo-id-schema.ts';
+
+describe('defineIdSchema', () => {
+  const registry = new OloIdSyntax([], { scoped: true });
+  const userSchema = defineIdSchema([['id'], ['username', 'domain']] as const, { separator: '@', registry });
+
+  it('should register the declared syntaxes', () => {
+    expect(userSchema.syntaxes).toEqual([['id'], ['username', 'domain']]);
+    expect(userSchema.registry).toBe(registry);
+    expect(registry.getDefinition(['username', 'domain'])?.separator).toBe('@');
+  });
+
+  it('should create typed OloIds', () => {
+    const email = userSchema.id(['username', 'domain'], 'albert@oloteo.com');
+
+    expect(email).toBeInstanceOf(OloId);
+    expect(email.toJSON()).toEqual({ username: 'albert', domain: 'oloteo.com' });
+    expect(email.isSame({ username: 'albert', domain: 'oloteo.com' })).toBe(true);
+    expectTypeOf(email.toJSON()).toEqualTypeOf<Record<'username' | 'domain', string | number>>();
+
+    // @ts-expect-error ['email'] is not a declared syntax
+    userSchema.id(['email'], 'albert@oloteo.com');
+  });
+
+  it('should create typed OloIdSets and OloDescriptors', () => {
+    const user = userSchema.idSet({ id: 'ae123', username: 'albert', domain: 'oloteo.com' });
+    const descriptor = userSchema.descriptor({ uri: { id: 'ae123', username: 'albert', domain: 'oloteo.com' }, format: Format.document });
+
+    expect(user).toBeInstanceOf(OloIdSet);
+    expect(user.toString()).toBe('ae123 albert@oloteo.com');
+    expect(user.isSame('albert@oloteo.com', { syntax: ['username', 'domain'] })).toBe(true);
+    expect(descriptor).toBeInstanceOf(OloDescriptor);
+    expect(descriptor.isSame(user)).toBe(true);
+    expect(descriptor.format).toBe(Format.document);
+  });
+});
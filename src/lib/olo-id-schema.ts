@@ -0,0 +1,154 @@
+import { IdSeparator, OloIdOptions, OloUri } from '../types/index.ts';
+
+import { OloDescriptor, OloDescriptorParameter } from './olo-descriptor.ts';
+import { OloId } from './olo-id.ts';
+import { OloIdMap, OloIdSet } from './olo-id-set.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+
+/**
+ * Converts syntaxes declared `as const` (readonly tuples of readonly tuples) into the mutable
+ * tuple types expected by the generics of {@link OloId} and {@link OloIdSet}.
+ *
+ * @template Syntaxes - The readonly syntaxes.
+ *
+ * @example
+ * type UserSyntaxes = OloIdSchemaSyntaxes<readonly [readonly ['id'], readonly ['username', 'domain']]>;
+ * // UserSyntaxes is [['id'], ['username', 'domain']]
+ */
+export type OloIdSchemaSyntaxes<Syntaxes extends readonly (readonly string[])[]> = {
+  -readonly [index in keyof Syntaxes]: Syntaxes[index] extends readonly string[] ? [...Syntaxes[index]] : never
+};
+
+/**
+ * Optional configuration of {@link defineIdSchema}.
+ *
+ * @template Separator - The string literal type of the separator.
+ */
+export interface OloIdSchemaOptions<Separator extends string = IdSeparator> {
+  /**
+   * The separator registered for all syntaxes of the schema.
+   * Defaults to the separator of the registry.
+   *
+   * @optional
+   */
+  separator?: Separator;
+
+  /**
+   * The `OloIdSyntax` registry the syntaxes are registered in and all identifiers of the schema are created with.
+   * Defaults to the global registry.
+   *
+   * @optional
+   */
+  registry?: OloIdSyntax<string>;
+}
+
+/**
+ * The factories returned by {@link defineIdSchema}. All identifiers created by them are typed with the
+ * declared syntaxes, so their `toJSON()`, `isSame()` and `OloIdMap` keys are checked by the compiler.
+ *
+ * @template Syntaxes - The declared syntaxes.
+ * @template IdentifierValue - The type of the identifier values.
+ * @template Separator - The string literal type of the separator.
+ */
+export interface OloIdSchemaFactories<
+  Syntaxes extends string[][],
+  IdentifierValue extends string | number = string | number,
+  Separator extends string = IdSeparator
+> {
+  /**
+   * The declared syntaxes.
+   */
+  readonly syntaxes: Syntaxes;
+
+  /**
+   * The registry the syntaxes are registered in.
+   */
+  readonly registry: OloIdSyntax<Separator>;
+
+  /**
+   * Creates an {@link OloId} with one of the declared syntaxes.
+   *
+   * @param syntax - One of the declared syntaxes.
+   * @param uri - The values of the identifier or its string representation.
+   * @param options - Optional configuration, see the `OloId` constructor.
+   *
+   * @returns The typed OloId.
+   */
+  id<Syntax extends Syntaxes[number]>(
+    syntax: Syntax,
+    uri: OloUri<Syntax, IdentifierValue> | string,
+    options?: Pick<OloIdOptions<Syntax, Separator>, 'strict'>,
+  ): OloId<Syntax, IdentifierValue, Separator>;
+
+  /**
+   * Creates an {@link OloIdSet} holding an OloId for every declared syntax covered by the values.
+   *
+   * @param uri - The values of the identifier or an `OloIdMap` keyed by the declared syntaxes.
+   * @param options - Optional configuration, see the `OloIdSet` constructor.
+   *
+   * @returns The typed OloIdSet.
+   */
+  idSet(
+    uri: Partial<OloUri<[...Syntaxes[number]], IdentifierValue>> | OloIdMap<Syntaxes, IdentifierValue, Separator>,
+    options?: Pick<OloIdOptions<[...Syntaxes[number]], Separator>, 'strict' | 'rejectConflicts'>,
+  ): OloIdSet<Syntaxes, IdentifierValue, Separator>;
+
+  /**
+   * Creates an {@link OloDescriptor} identified by the declared syntaxes.
+   *
+   * @param descriptor - The `uri`, `format` and `parts` of the descriptor.
+   * @param options - Optional configuration, see the `OloDescriptor` constructor.
+   *
+   * @returns The typed OloDescriptor.
+   */
+  descriptor<Parts extends string = string, PartsSetting extends boolean | string | number = boolean>(
+    descriptor: OloDescriptorParameter<Syntaxes, IdentifierValue, Parts, PartsSetting>,
+    options?: Pick<OloIdOptions<[...Syntaxes[number]], '/'>, 'strict' | 'rejectConflicts'>,
+  ): OloDescriptor<Syntaxes, IdentifierValue, Parts, PartsSetting>;
+}
+
+/**
+ * Registers a set of syntaxes and returns factories creating identifiers fully typed from the declaration.
+ *
+ * Syntaxes registered at runtime (e.g. via `new OloIdSyntax().setSyntaxes(...)`) are unknown to the compiler,
+ * so identifiers fall back to `string[][]`. Declaring the syntaxes `as const` here keeps their literal types.
+ *
+ * @param syntaxes - The syntaxes, declared `as const`.
+ * @param options - Optional configuration.
+ * @param options.separator - The separator registered for all syntaxes of the schema.
+ * @param options.registry - The registry the syntaxes are registered in. Defaults to the global registry.
+ *
+ * @returns The {@link OloIdSchemaFactories} of the schema.
+ *
+ * @example
+ * const userSchema = defineIdSchema([['id'], ['username', 'domain']] as const, { separator: '@' });
+ *
+ * const user = userSchema.idSet({ id: 'ae123', username: 'albert', domain: 'oloteo.com' });
+ * console.log(user.toString()); // Output: "ae123 albert@oloteo.com"
+ *
+ * const email = userSchema.id(['username', 'domain'], 'albert@oloteo.com');
+ * console.log(email.toJSON().domain); // Output: "oloteo.com"
+ *
+ * userSchema.id(['email'], 'albert@oloteo.com'); // compile error: ['email'] isn't declared
+ */
+export const defineIdSchema = <
+  Syntaxes extends readonly (readonly string[])[],
+  IdentifierValue extends string | number = string | number,
+  Separator extends string = IdSeparator
+>(
+  syntaxes: Syntaxes,
+  { separator, registry }: OloIdSchemaOptions<Separator> = {},
+): OloIdSchemaFactories<OloIdSchemaSyntaxes<Syntaxes>, IdentifierValue, Separator> => {
+  type Schema = OloIdSchemaFactories<OloIdSchemaSyntaxes<Syntaxes>, IdentifierValue, Separator>;
+
+  const oloIdSyntax = (registry ?? new OloIdSyntax()) as OloIdSyntax<Separator>;
+  oloIdSyntax.setSyntaxes(syntaxes.map(syntax => separator ? { syntax: [...syntax], separator } : [...syntax]));
+
+  return {
+    syntaxes: syntaxes.map(syntax => [...syntax]) as OloIdSchemaSyntaxes<Syntaxes>,
+    registry: oloIdSyntax,
+    id: ((syntax, uri, options = {}) => new OloId(uri, { ...options, syntax, registry: oloIdSyntax })) as Schema['id'],
+    idSet: ((uri, options = {}) => new OloIdSet(uri as OloUri, { ...options, registry: oloIdSyntax })) as Schema['idSet'],
+    descriptor: ((descriptor, options = {}) => new OloDescriptor(descriptor, { ...options, registry: oloIdSyntax })) as Schema['descriptor'],
+  };
+};
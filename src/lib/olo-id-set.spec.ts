@@ -1,6 +1,10 @@
 import { OloIdSet, isOloIdSet, isOloIdSetList } from './olo-id-set.ts';
 
-import { OloUri } from '../types/index.ts';
+import { OloId } from './olo-id.ts';
+import { OloIdError } from './olo-id-error.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+
+import { OloIdIssueCode, OloUri } from '../types/index.ts';
 
 describe('OloIdSet', () => {
   it('should create an OloIdSet from a string', () => {
@@ -66,4 +70,122 @@ describe('OloIdSet', () => {
     expect(idSet.toString()).toBe('value1/value2/value3');
     expect(idSet.toJSON()).toEqual({ type1: 'value1', type2: 'value2', type3: 'value3' });
   });
+
+  it('should resolve syntaxes with the registry passed in the options', () => {
+    const registry = new OloIdSyntax([['type1'], ['type2', 'type3']], { scoped: true });
+    const idSet = new OloIdSet({ type1: 'value1', type2: 'value2', type3: 'value3' }, { registry });
+    expect(idSet.toString()).toBe('value1 value2/value3');
+    expect(idSet.isSame('value1', { syntax: ['type1'] })).toBe(true);
+    expect(idSet.isSame({ type2: 'value2', type3: 'value3' })).toBe(true);
+
+    const idSetCopy = new OloIdSet(idSet);
+    expect(idSetCopy.toString()).toBe('value1 value2/value3');
+    expect(idSetCopy['oloIdSyntax']).toBe(registry);
+  });
+
+  it('should render each OloId with the separator registered for its syntax', () => {
+    const registry = new OloIdSyntax([['type1'], { syntax: ['username', 'domain'], separator: '@' }], { scoped: true });
+    const idSet = new OloIdSet({ type1: 'value1', username: 'value2', domain: 'value3' }, { registry });
+
+    expect(idSet.toString()).toBe('value1 value2@value3');
+    expect(idSet.isSame('value2@value3', { syntax: ['username', 'domain'] })).toBe(true);
+  });
+
+  it('should only throw if the identifier is malformed for every syntax', () => {
+    const registry = new OloIdSyntax([
+      { syntax: ['id'], properties: { id: 'integer' } },
+      { syntax: ['username', 'domain'], separator: '@', properties: { username: 'emailLocalPart' } },
+    ], { scoped: true });
+    const idSet = new OloIdSet({ id: '12', username: 'value1', domain: 'value2' }, { registry });
+
+    expect(idSet.isSame('value1@value2')).toBe(true);
+    expect(idSet.isSame('12')).toBe(true);
+    expect(idSet.isSame('13')).toBe(false);
+    expect(() => idSet.isSame('value..1@value2')).toThrow(OloIdError);
+  });
+
+  it('should render and parse URNs and query strings', () => {
+    const registry = new OloIdSyntax([['id'], { syntax: ['username', 'domain'], urn: { namespace: 'user' } }], { scoped: true });
+    const idSet = new OloIdSet({ id: 'ae123', username: 'albert', domain: 'oloteo.com' }, { registry });
+
+    expect(idSet.toUrns()).toEqual(['urn:olo:ae123', 'urn:user:albert:oloteo.com']);
+    expect(idSet.toQueryString()).toBe('id=ae123&username=albert&domain=oloteo.com');
+
+    expect(OloIdSet.fromUrns(idSet.toUrns(), { registry }).toJSON()).toEqual(idSet.toJSON());
+    expect(OloIdSet.fromUrns(['urn:user:albert:oloteo.com'], { registry }).isSame(idSet)).toBe(true);
+    expect(OloIdSet.fromQueryString(idSet.toQueryString(), { registry }).toString()).toBe(idSet.toString());
+  });
+
+  it('should encode to tokens independent of the registration order', () => {
+    const registry1 = new OloIdSyntax([['id'], ['username', 'domain']], { scoped: true });
+    const registry2 = new OloIdSyntax([['username', 'domain'], ['id']], { scoped: true });
+    const uri = { id: 'ae123', username: 'albert', domain: 'oloteo.com' };
+
+    const token = new OloIdSet(uri, { registry: registry1 }).toToken();
+    expect(new OloIdSet(uri, { registry: registry2 }).toToken()).toBe(token);
+
+    const decoded = OloIdSet.fromToken(token, { registry: registry2 });
+    expect(decoded.toJSON()).toEqual(uri);
+    expect(decoded.isSame('ae123', { syntax: ['id'] })).toBe(true);
+    expect(OloIdSet.fromToken(new OloId({ id: 'ae123' }, { registry: registry1 }).toToken(), { registry: registry1 }).toJSON()).toEqual({ id: 'ae123' });
+    expect(() => OloIdSet.fromToken('')).toThrow(OloIdError);
+  });
+
+  it('should canonicalize and hash independent of the registration order', () => {
+    const registry1 = new OloIdSyntax([['id'], ['username', 'domain']], { scoped: true });
+    const registry2 = new OloIdSyntax([['domain', 'username'], ['id']], { scoped: true });
+
+    const idSet1 = new OloIdSet({ id: 1, username: 'albert', domain: 'oloteo.com' }, { registry: registry1 });
+    const idSet2 = new OloIdSet({ domain: 'oloteo.com', username: 'albert', id: '1' }, { registry: registry2 });
+
+    expect(idSet1.canonicalize()).toBe('domain=oloteo.com&username=albert id=1');
+    expect(idSet2.canonicalize()).toBe(idSet1.canonicalize());
+    expect(idSet2.hash()).toBe(idSet1.hash());
+    expect(new OloIdSet({ id: 2, username: 'albert', domain: 'oloteo.com' }, { registry: registry1 }).hash()).not.toBe(idSet1.hash());
+  });
+
+  it('should detect conflicting values of its OloIds', () => {
+    const registry = new OloIdSyntax([['type', 'id'], ['id', 'slug']], { scoped: true });
+    const idMap = {
+      'type/id': new OloId({ type: 'user', id: 1 }, { syntax: ['type', 'id'], registry }),
+      'id/slug': new OloId({ id: 2, slug: 'albert' }, { syntax: ['id', 'slug'], registry }),
+    };
+
+    expect(new OloIdSet({ type: 'user', id: 1, slug: 'albert' }, { registry }).validate()).toEqual([]);
+    expect(new OloIdSet(idMap).validate()).toEqual([
+      { code: OloIdIssueCode.conflictingValue, property: 'id', value: [1, 2], message: 'Property "id" has conflicting values: 1, 2.' },
+    ]);
+    expect(() => new OloIdSet(idMap, { rejectConflicts: true })).toThrow(OloIdError);
+    expect(() => new OloIdSet({ type: 'user', id: 1, slug: 'albert' }, { registry, rejectConflicts: true })).not.toThrow();
+  });
+
+  it('should merge with other identifiers unless they conflict', () => {
+    const registry = new OloIdSyntax([['id'], ['username', 'domain']], { scoped: true });
+    const idSet = new OloIdSet({ id: 'ae123' }, { registry });
+
+    const merged = idSet.merge({ id: 'ae123', username: 'albert', domain: 'oloteo.com' });
+    expect(merged.success).toBe(true);
+    expect(merged.set?.toJSON()).toEqual({ id: 'ae123', username: 'albert', domain: 'oloteo.com' });
+    expect(merged.set?.isSame('albert/oloteo.com', { syntax: ['username', 'domain'] })).toBe(true);
+    expect(idSet.toJSON()).toEqual({ id: 'ae123' });
+
+    expect(idSet.merge(new OloId({ username: 'albert', domain: 'oloteo.com' }, { registry })).set?.canonicalize())
+      .toBe(merged.set?.canonicalize());
+
+    const conflicting = idSet.merge(new OloIdSet({ id: 'ae124', username: 'albert', domain: 'oloteo.com' }, { registry }));
+    expect(conflicting.success).toBe(false);
+    expect(conflicting.set).toBeUndefined();
+    expect(conflicting.issues.map(issue => issue.property)).toEqual(['id']);
+  });
+
+  it('should match patterns against any of its OloIds', () => {
+    const registry = new OloIdSyntax([['type', 'id'], ['slug']], { scoped: true });
+    const idSet = new OloIdSet({ type: 'article', id: '123', slug: 'news' }, { registry });
+
+    expect(idSet.matches('article/*')).toEqual({ matched: true, syntax: ['type', 'id'], captures: { id: '123' } });
+    expect(idSet.matches({ slug: 'news' }).syntax).toEqual(['slug']);
+    expect(idSet.matches('news').matched).toBe(true);
+    expect(idSet.matches('news', { syntax: ['type', 'id'] }).matched).toBe(false);
+    expect(idSet.matches('video/*').matched).toBe(false);
+  });
 });
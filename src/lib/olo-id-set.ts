@@ -1,8 +1,24 @@
 import { ConcatString, GetListTypeGuard } from 'olo-platform';
-import { IdSeparator, OloIdOptions, OloIdentifier, OloUri } from '../types/index.ts';
+import {
+  ID_PROP_UNDEFINED,
+  IdSeparator,
+  OloIdIssue,
+  OloIdIssueCode,
+  OloIdMatchResult,
+  OloIdMergeResult,
+  OloIdOptions,
+  OloIdPattern,
+  OloIdTokenDecodeOptions,
+  OloIdTokenOptions,
+  OloIdentifier,
+  OloUri,
+} from '../types/index.ts';
 import { OloId, isOloId } from './olo-id.ts';
 
+import { OloIdError, isOloIdError } from './olo-id-error.ts';
+import { sha256 } from './olo-id-hash.ts';
 import { OloIdSyntax } from './olo-id-syntax.ts';
+import { decodeOloIdToken, encodeOloIdToken } from './olo-id-token.ts';
 
 /**
  * Defines a map where keys are string representations of OloId syntaxes
@@ -34,6 +50,61 @@ export type OloIdMap<
   [key in ConcatString<IdentifierProperties[number], Separator>]: OloId<IdentifierProperties[number], IdentifierValue, Separator>
 }
 
+/**
+ * Merges the uris of the OloIds of a set into a single OloUri. If several OloIds hold the same property,
+ * the value of the last one wins.
+ *
+ * Used instead of `toJSON()`, which subclasses like {@link OloDescriptor} override to include other properties.
+ *
+ * @param uri - The OloIds of the set.
+ * @returns The merged OloUri.
+ *
+ * @private
+ */
+const mergeIdUris = <
+  IdentifierProperties extends string[][],
+  IdentifierValue extends string | number,
+  Separator extends string,
+>(uri: OloIdMap<IdentifierProperties, IdentifierValue, Separator>): OloUri<[...IdentifierProperties[number]], IdentifierValue> =>
+  (Object.values(uri) as OloId<IdentifierProperties[number], IdentifierValue, Separator>[]).reduce(
+    (json, id) => Object.assign(json, id['uri']),
+    {} as OloUri<[...IdentifierProperties[number]], IdentifierValue>,
+  );
+
+/**
+ * Collects the properties that hold different values in the given OloIds.
+ * Values are compared by their string representation and missing values are ignored.
+ *
+ * @param ids - The OloIds to check.
+ * @returns One issue for each conflicting property.
+ *
+ * @private
+ */
+const getConflictIssues = (ids: OloId[]): OloIdIssue[] => {
+  const values = new Map<string, (string | number)[]>();
+
+  ids.forEach(id => Object.entries(id['uri'] as Record<string, string | number>).forEach(([property, value]) => {
+    if (value === ID_PROP_UNDEFINED) {
+      return;
+    }
+
+    const propertyValues = values.get(property) ?? [];
+    if (!propertyValues.some(propertyValue => String(propertyValue) === String(value))) {
+      propertyValues.push(value);
+    }
+    values.set(property, propertyValues);
+  }));
+
+  return [...values]
+    .filter(([, propertyValues]) => propertyValues.length > 1)
+    .map(([property, propertyValues]) => ({
+      code: OloIdIssueCode.conflictingValue,
+      property,
+      value: propertyValues,
+      message: `Property "${property}" has conflicting values: ${propertyValues.join(', ')}.`,
+    }));
+};
+
 /**
  * OloIdSet is a set of related {@link OloId} instances, often derived from a single OloUri
  * that can be interpreted through multiple registered syntaxes.
@@ -64,7 +135,7 @@ export class OloIdSet<
    *
    * @private
    */
-  private oloIdSyntax = new OloIdSyntax<Separator>();
+  private oloIdSyntax: OloIdSyntax<Separator>;
 
   /**
    * Internal storage mapping syntax strings (e.g., "type/id") to their corresponding OloId instances.
@@ -73,6 +144,13 @@ export class OloIdSet<
    */
   private uri: OloIdMap<IdentifierProperties, IdentifierValue, Separator>;
 
+  /**
+   * The options the set was created with that apply to copies of it (see {@link OloDescriptor.clone}).
+   *
+   * @private
+   */
+  private options: OloIdOptions<[...IdentifierProperties[number]], Separator>;
+
   /**
    * Creates an instance of OloIdSet.
    *
@@ -86,9 +164,16 @@ export class OloIdSet<
    * @param uri - The source data for the identifier set. Can be a single `OloUri` object, another `OloIdSet`,
    *   a map of syntax strings to `OloId` instances (`OloIdMap`), or a single identifier string.
    * @param options - Optional configuration for OloId creation within the set.
-   * @param options.register - If `true`, any newly derived or inferred syntaxes will be registered globally. Defaults to `false`.
+   * @param options.register - If `true`, any newly derived or inferred syntaxes will be registered. Defaults to `false`.
    * @param options.syntax - Can be used to hint or enforce specific syntaxes, especially when `uri` is a string or OloUri.
    * @param options.separator - The separator to use for parsing string `uri` or for default string representations.
+   * @param options.registry - The `OloIdSyntax` registry used for the set and all of its OloIds.
+   *   Defaults to the registry of the source `OloIdSet` or `OloIdMap`, and to the global registry otherwise.
+   * @param options.strict - If `true`, the OloIds of the set are created in strict mode (see {@link OloIdOptions.strict}).
+   * @param options.rejectConflicts - If `true`, an `OloIdError` is thrown if the OloIds of the set hold different values
+   *   for the same property (see `validate()`).
+   *
+   * @throws {OloIdError} If `options.rejectConflicts` is set and the OloIds of the set conflict with each other.
    *
    * @example
    * // From OloUri (finds matching syntaxes 'type/id' and 'category/code' if registered)
@@ -110,29 +195,37 @@ export class OloIdSet<
       | OloIdSet<IdentifierProperties, IdentifierValue, Separator>
       | OloIdMap<IdentifierProperties, IdentifierValue, Separator>
       | string,
-    { register = false, syntax, separator }: OloIdOptions<[...IdentifierProperties[number]], Separator> = {}
+    { register = false, syntax, separator, registry, strict, rejectConflicts = false }: OloIdOptions<[...IdentifierProperties[number]], Separator> = {}
   ) {
+    const sourceRegistry = typeof uri === 'string'
+      ? undefined
+      : isOloIdSet(uri) ? uri['oloIdSyntax'] : Object.values(uri).find(isOloId)?.['oloIdSyntax'];
+    this.oloIdSyntax = (registry ?? sourceRegistry ?? new OloIdSyntax()) as OloIdSyntax<Separator>;
+    registry = this.oloIdSyntax;
+    this.options = { separator, registry, strict, rejectConflicts };
+
     if (typeof uri === 'string') {
-      const id = new OloId<[...IdentifierProperties[number]], IdentifierValue, Separator>(uri, { register, separator, syntax });
+      const id = new OloId<[...IdentifierProperties[number]], IdentifierValue, Separator>(uri, { register, separator, syntax, registry, strict });
       this.uri = { [id.toSyntaxString()]: id } as OloIdMap<IdentifierProperties, IdentifierValue, Separator>;
 
     } else if (Object.values(uri).every(isOloId)) {
       this.uri = {} as OloIdMap<IdentifierProperties, IdentifierValue, Separator>;
 
-      Object.keys(uri).map(uriKey => this.oloIdSyntax.getSyntaxes(uriKey, { register})[0]).forEach(
-        (syntaxItem) => {
-          const syntaxKey = (syntaxItem ?? []).join(separator ?? this.oloIdSyntax.getSeparator()) as ConcatString<IdentifierProperties[number], Separator>;
-          this.uri[syntaxKey] = new OloId<[...IdentifierProperties[number]], IdentifierValue, Separator>(
-            (uri as OloIdMap<IdentifierProperties, IdentifierValue, Separator>)[syntaxKey],
-            { register, separator, syntax },
+      // Each OloId keeps its own syntax: looking up the key could resolve e.g. 'type/id' to a registered 'id' syntax.
+      (Object.values(uri) as OloId<IdentifierProperties[number], IdentifierValue, Separator>[]).forEach(
+        (sourceId) => {
+          const id = new OloId<[...IdentifierProperties[number]], IdentifierValue, Separator>(
+            sourceId as OloId<[...IdentifierProperties[number]], IdentifierValue, Separator>,
+            { register, separator, syntax: syntax ?? sourceId['syntax'], registry, strict },
           );
+          this.uri[id.toSyntaxString(separator ?? this.oloIdSyntax.getSeparator()) as ConcatString<IdentifierProperties[number], Separator>] = id;
         }
       );
 
     } else {
       this.uri = {} as OloIdMap<IdentifierProperties, IdentifierValue, Separator>;
       const workingUri = (isOloIdSet(uri)
-        ? this.toJSON(uri.uri as OloIdMap<IdentifierProperties, IdentifierValue, Separator>)
+        ? mergeIdUris(uri.uri as OloIdMap<IdentifierProperties, IdentifierValue, Separator>)
         : uri
       ) as OloUri<[...IdentifierProperties[number]], IdentifierValue>;
 
@@ -140,12 +233,89 @@ export class OloIdSet<
         (syntaxItem) => {
           const id = new OloId<[...IdentifierProperties[number]], IdentifierValue, Separator>(
             workingUri,
-            { syntax: syntaxItem, separator },
+            { syntax: syntaxItem, separator, registry, strict },
           );
           this.uri[id.toSyntaxString()] = id;
         }
       );
     }
+
+    if (rejectConflicts) {
+      const issues = this.validate();
+      if (issues.length > 0) {
+        throw new OloIdError(issues);
+      }
+    }
+  }
+
+  /**
+   * Checks the OloIds of the set for internal conflicts, i.e. properties that hold different values
+   * in different OloIds (e.g. `id` is `1` in the `type/id` OloId but `2` in the `id/slug` one).
+   *
+   * Sets created from a single OloUri can't conflict; conflicts arise if a set is created from
+   * separately created OloIds (an `OloIdMap`). Values are compared by their string representation,
+   * missing values are ignored.
+   *
+   * @returns A list of issues with code `CONFLICTING_VALUE`, one for each conflicting property. Empty if the set is consistent.
+   *
+   * @example
+   * const set = new OloIdSet({
+   *   'type/id': new OloId({ type: 'user', id: 1 }),
+   *   'id/slug': new OloId({ id: 2, slug: 'albert' }),
+   * });
+   * console.log(set.validate()); // Output: [{ code: 'CONFLICTING_VALUE', property: 'id', value: [1, 2], message: '...' }]
+   */
+  validate(): OloIdIssue[] {
+    return getConflictIssues(Object.values(this.uri) as OloId[]);
+  }
+
+  /**
+   * Merges this set with another identifier into a new OloIdSet, without modifying either of them.
+   *
+   * The values of both are consolidated into one OloUri, from which the new set is created with the
+   * registry of this set, so it holds an OloId for every syntax the combined values match.
+   * If the two identifiers hold different values for the same property, no set is created and the
+   * conflicts are reported instead.
+   *
+   * @param other - The identifier to merge: another OloIdSet, an OloId or an OloUri.
+   *
+   * @returns An {@link OloIdMergeResult} holding either the merged set or the conflicts found.
+   *
+   * @example
+   * const set = new OloIdSet({ id: 'ae123' }); // Assumes 'id' and 'username/domain' syntaxes
+   *
+   * const merged = set.merge({ username: 'albert', domain: 'oloteo.com' });
+   * console.log(merged.set?.toString()); // Output: "ae123 albert/oloteo.com"
+   *
+   * const conflicting = set.merge({ id: 'ae124' });
+   * console.log(conflicting.issues[0]?.property); // Output: "id"
+   */
+  merge(
+    other: OloUri<[...IdentifierProperties[number]], IdentifierValue>
+      | OloId<IdentifierProperties[number], IdentifierValue, Separator>
+      | OloIdSet<IdentifierProperties, IdentifierValue, Separator>,
+  ): OloIdMergeResult<OloIdSet<IdentifierProperties, IdentifierValue, Separator>> {
+    const otherSet = isOloIdSet(other) || isOloId(other)
+      ? other
+      : new OloIdSet(other as OloUri<[...IdentifierProperties[number]], IdentifierValue>, { registry: this.oloIdSyntax });
+    const otherIds = (isOloIdSet(otherSet) ? Object.values(otherSet['uri']) : [otherSet]) as OloId[];
+    const ids = [...Object.values(this.uri) as OloId[], ...otherIds];
+
+    const issues = getConflictIssues(ids);
+    if (issues.length > 0) {
+      return { success: false, issues };
+    }
+
+    const uri = ids.reduce(
+      (json, id) => Object.assign(json, id['uri']),
+      {} as OloUri<[...IdentifierProperties[number]], IdentifierValue>,
+    );
+
+    return {
+      success: true,
+      set: new OloIdSet<IdentifierProperties, IdentifierValue, Separator>(uri, { registry: this.oloIdSyntax }),
+      issues: [],
+    };
   }
 
   /**
@@ -162,6 +332,9 @@ export class OloIdSet<
    *
    * @returns `true` if the `identifier` matches at least one `OloId` in the set, `false` otherwise.
    *
+   * @throws {OloIdError} If the `identifier` is malformed for the declared property types of *every* OloId in the set.
+   *   Identifiers that are malformed for some syntaxes only are treated as not matching those syntaxes.
+   *
    * @example
    * const set = new OloIdSet({ type: 'user', id: '123', role: 'admin' }); // Assumes 'type/id' and 'role' syntaxes exist
    *
@@ -172,10 +345,63 @@ export class OloIdSet<
   isSame(identifier: string | OloUri | OloIdentifier | OloIdSet, options: { syntax?: ConcatString<IdentifierProperties[number], Separator> | string[] } = {}): boolean {
     let id = identifier;
     if(isOloIdSet(identifier)) {
-      id = this.toJSON(identifier['uri'] as unknown as OloIdMap<IdentifierProperties, IdentifierValue, Separator>) as OloUri<[...IdentifierProperties[number]], IdentifierValue>;
+      id = mergeIdUris(identifier['uri'] as unknown as OloIdMap<IdentifierProperties, IdentifierValue, Separator>);
+    }
+
+    const ids = Object.values(this.uri) as OloId<IdentifierProperties[number], IdentifierValue, Separator>[];
+    const errors: OloIdError[] = [];
+
+    const result = ids.reduce(
+      (result, uri) => {
+        if (result) {
+          return result;
+        }
+
+        try {
+          return uri.isSame(id, options);
+        } catch (error) {
+          if (!isOloIdError(error)) {
+            throw error;
+          }
+          errors.push(error);
+          return false;
+        }
+      },
+      false,
+    );
+
+    if (!result && errors.length > 0 && errors.length === ids.length) {
+      throw new OloIdError(errors.flatMap(error => error.issues));
     }
 
-    return (Object.values(this.uri) as OloId<IdentifierProperties[number], IdentifierValue, Separator>[]).reduce((result, uri) => result || uri.isSame(id, options), false);
+    return result;
+  }
+
+  /**
+   * Checks if *any* of the OloIds within this set matches a pattern (see {@link OloId.matches}).
+   *
+   * @param pattern - The pattern to match, e.g. `'article/*'`, `'article'` or `{ type: 'article' }`.
+   * @param options - Optional configuration.
+   * @param options.syntax - If set, the pattern is only matched against the OloId with this syntax.
+   *
+   * @returns The {@link OloIdMatchResult} of the first matching OloId, holding its syntax and the captured values.
+   *
+   * @example
+   * const set = new OloIdSet({ type: 'article', id: '123', slug: 'news' }); // Assumes 'type/id' and 'slug' syntaxes
+   *
+   * console.log(set.matches('article/*').captures); // Output: { id: '123' }
+   * console.log(set.matches({ slug: 'news' }).syntax); // Output: ['slug']
+   * console.log(set.matches('news', { syntax: ['type', 'id'] }).matched); // Output: false
+   */
+  matches(
+    pattern: OloIdPattern,
+    { syntax }: { syntax?: ConcatString<IdentifierProperties[number], Separator> | string[] } = {},
+  ): OloIdMatchResult<IdentifierValue> {
+    const syntaxList = Array.isArray(syntax) ? syntax : syntax?.split(this.oloIdSyntax.getSeparator());
+    const ids = (Object.values(this.uri) as OloId<IdentifierProperties[number], IdentifierValue, Separator>[])
+      .filter((id) => !syntaxList || id['syntax'].join('\u0000') === syntaxList.join('\u0000'));
+
+    return ids.map((id) => id.matches(pattern)).find((result) => result.matched) ?? { matched: false };
   }
 
   /**
@@ -195,6 +421,179 @@ export class OloIdSet<
       .map((id) => id.toString()).join(' ');
   }
 
+  /**
+   * Returns the canonical form of the set: the canonical forms of all contained OloIds
+   * (see {@link OloId.canonicalize}), sorted and joined by a space.
+   *
+   * Sets representing the same identities share the same canonical form, independently of the
+   * order in which their syntaxes were registered.
+   *
+   * @returns The canonical form of the set.
+   *
+   * @example
+   * const set = new OloIdSet({ id: 1, username: 'albert', domain: 'oloteo.com' }); // Assumes 'id' and 'username/domain' syntaxes
+   * console.log(set.canonicalize()); // Output: "domain=oloteo.com&username=albert id=1"
+   */
+  canonicalize(): string {
+    return (Object.values(this.uri) as OloId<IdentifierProperties[number], IdentifierValue, Separator>[])
+      .map((id) => id.canonicalize())
+      .sort()
+      .join(' ');
+  }
+
+  /**
+   * Returns a stable SHA-256 hash of the canonical form of the set (see `canonicalize()`),
+   * e.g. to be used as a cache or Map key.
+   *
+   * @returns The hex encoded hash.
+   */
+  hash(): string {
+    return sha256(this.canonicalize());
+  }
+
+  /**
+   * Returns the URN representations of all contained OloId instances (see {@link OloId.toUrn}).
+   *
+   * @returns A list of URNs, one for each OloId in the set.
+   *
+   * @example
+   * const set = new OloIdSet({ type: 'user', id: '123', role: 'admin' }); // Assumes 'type/id' and 'role' syntaxes
+   * console.log(set.toUrns()); // Output: ['urn:olo:user:123', 'urn:olo:admin']
+   */
+  toUrns(): string[] {
+    return (Object.values(this.uri) as OloId<IdentifierProperties[number], IdentifierValue, Separator>[])
+      .map((id) => id.toUrn());
+  }
+
+  /**
+   * Returns the query string representation of the consolidated OloUri of the set (see `toJSON()`).
+   *
+   * @returns The query string of the set, without leading `?`.
+   *
+   * @example
+   * const set = new OloIdSet({ type: 'user', id: '123', role: 'admin' }); // Assumes 'type/id' and 'role' syntaxes
+   * console.log(set.toQueryString()); // Output: "type=user&id=123&role=admin"
+   */
+  toQueryString(): string {
+    return new URLSearchParams(
+      Object.entries(this.toJSON()).map(([property, value]): [string, string] => [property, String(value)]),
+    ).toString();
+  }
+
+  /**
+   * Creates an OloIdSet from the URN representations of its OloIds (see {@link OloId.fromUrn}).
+   *
+   * The values of all URNs are consolidated into one OloUri, from which the set is created
+   * just like from any other OloUri.
+   *
+   * @param urns - The URNs of the OloIds.
+   * @param options - Configuration for the OloIdSet instance, see the constructor.
+   *
+   * @returns The created OloIdSet.
+   *
+   * @throws {OloIdError} If one of the URNs can't be parsed.
+   *
+   * @example
+   * const set = OloIdSet.fromUrns(['urn:olo:user:123', 'urn:olo:admin']);
+   * console.log(set.toJSON()); // Output: { type: 'user', id: '123', role: 'admin' }
+   */
+  static fromUrns<
+    IdentifierProperties extends string[][] = string[][],
+    IdentifierValue extends string | number = string | number,
+    Separator extends string = IdSeparator
+  >(urns: string[], options: OloIdOptions<[...IdentifierProperties[number]], Separator> = {}): OloIdSet<IdentifierProperties, IdentifierValue, Separator> {
+    const { syntax, ...idOptions } = options;
+    const uri = urns.reduce(
+      (json, urn) => Object.assign(json, OloId.fromUrn(urn, idOptions as OloIdOptions<string[], Separator>).toJSON()),
+      {} as OloUri<[...IdentifierProperties[number]], IdentifierValue>,
+    );
+
+    return new OloIdSet<IdentifierProperties, IdentifierValue, Separator>(uri, { ...idOptions, syntax });
+  }
+
+  /**
+   * Creates an OloIdSet from its query string representation (see `toQueryString()`).
+   *
+   * @param query - The query string (with or without leading `?`) or a `URLSearchParams` instance.
+   * @param options - Configuration for the OloIdSet instance, see the constructor.
+   *
+   * @returns The created OloIdSet. All values are strings.
+   *
+   * @example
+   * const set = OloIdSet.fromQueryString('?type=user&id=123&role=admin');
+   * console.log(set.toJSON()); // Output: { type: 'user', id: '123', role: 'admin' }
+   */
+  static fromQueryString<
+    IdentifierProperties extends string[][] = string[][],
+    IdentifierValue extends string | number = string | number,
+    Separator extends string = IdSeparator
+  >(query: string | URLSearchParams, options: OloIdOptions<[...IdentifierProperties[number]], Separator> = {}): OloIdSet<IdentifierProperties, IdentifierValue, Separator> {
+    const uri = Object.fromEntries(new URLSearchParams(query)) as OloUri<[...IdentifierProperties[number]], IdentifierValue>;
+
+    return new OloIdSet<IdentifierProperties, IdentifierValue, Separator>(uri, options);
+  }
+
+  /**
+   * Encodes the set into an opaque, URL-safe token that can be decoded with `OloIdSet.fromToken()`.
+   *
+   * The token holds the canonical form of every OloId of the set, sorted independently of the
+   * order in which their syntaxes were registered.
+   *
+   * @param options - Optional configuration.
+   * @param options.signer - If set, the token is signed with this {@link OloIdSigner}.
+   * @param options.expiresIn - The number of seconds after which a signed token expires.
+   * @param options.expiresAt - The point in time a signed token expires at.
+   * @param options.audience - The audience a signed token is issued for.
+   *
+   * @returns The token.
+   *
+   * @example
+   * const set = new OloIdSet({ id: 'ae123', username: 'albert', domain: 'oloteo.com' }); // Assumes 'id' and 'username/domain' syntaxes
+   * const token = set.toToken();
+   * console.log(OloIdSet.fromToken(token).isSame(set)); // Output: true
+   */
+  toToken({ signer, ...signOptions }: OloIdTokenOptions = {}): string {
+    const token = encodeOloIdToken(
+      (Object.values(this.uri) as OloId<IdentifierProperties[number], IdentifierValue, Separator>[])
+        .map((id) => id['toTokenEntries']()),
+    );
+
+    return signer ? signer.sign(token, signOptions) : token;
+  }
+
+  /**
+   * Decodes a token created by `toToken()` (or by {@link OloId.toToken}).
+   *
+   * The values of all OloIds in the token are consolidated into one OloUri, from which the set
+   * is created just like a copy of the original set.
+   *
+   * @param token - The token to decode.
+   * @param options - Configuration for the OloIdSet instance, see the constructor.
+   * @param options.signer - If set, the token needs to be signed by this signer and is verified first.
+   * @param options.audience - The audience (or list of audiences) accepted when verifying a signed token.
+   * @param options.now - The point in time the expiry of a signed token is checked against. Defaults to the current time.
+   *
+   * @returns The decoded OloIdSet.
+   *
+   * @throws {OloIdError} If the token is malformed, or if a `signer` is set and the token isn't signed by it,
+   *   has expired or was issued for another audience.
+   */
+  static fromToken<
+    IdentifierProperties extends string[][] = string[][],
+    IdentifierValue extends string | number = string | number,
+    Separator extends string = IdSeparator
+  >(
+    token: string,
+    { signer, audience, now, ...options }: OloIdOptions<[...IdentifierProperties[number]], Separator> & OloIdTokenDecodeOptions = {},
+  ): OloIdSet<IdentifierProperties, IdentifierValue, Separator> {
+    const uri = decodeOloIdToken(signer ? signer.verify(token, { audience, now }) : token).reduce(
+      (json, entries) => Object.assign(json, Object.fromEntries(entries)),
+      {} as OloUri<[...IdentifierProperties[number]], IdentifierValue>,
+    );
+
+    return new OloIdSet<IdentifierProperties, IdentifierValue, Separator>(uri, options);
+  }
+
   /**
    * Defines the default primitive value conversion for the OloIdSet, delegating to `toString()`.
    * Used when the object is coerced to a primitive type (e.g., in string concatenation).
@@ -228,10 +627,7 @@ export class OloIdSet<
   toJSON(
     uri?: OloIdMap<IdentifierProperties, IdentifierValue, Separator>
   ): OloUri<[...IdentifierProperties[number]], IdentifierValue> | { uri: OloUri<[...IdentifierProperties[number]], IdentifierValue> } {
-    return (Object.values(uri ??  this.uri) as OloId<IdentifierProperties[number], IdentifierValue, Separator>[]).reduce(
-      (json, id: OloId<IdentifierProperties[number], IdentifierValue, Separator>) =>
-          Object.assign(json, id['uri']), {} as OloUri<[...IdentifierProperties[number]], IdentifierValue>
-    );
+    return mergeIdUris(uri ?? this.uri);
   }
 }
 
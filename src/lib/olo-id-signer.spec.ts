@@ -0,0 +1,77 @@
+import { OloIdIssueCode } from '../types/index.ts';
+
+import { OloId } from './olo-id.ts';
+import { isOloIdError } from './olo-id-error.ts';
+import { OloIdSet } from './olo-id-set.ts';
+import { OloIdSigner, isOloIdSigner } from './olo-id-signer.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+
+describe('OloIdSigner', () => {
+  const registry = new OloIdSyntax([['type', 'id'], ['slug']], { scoped: true });
+  const signer = new OloIdSigner('secret');
+  const id = new OloId({ type: 'article', id: '123' }, { registry });
+
+  const getIssueCodes = (verify: () => unknown) => {
+    try {
+      verify();
+    } catch (error) {
+      return isOloIdError(error) ? error.issues.map(issue => issue.code) : [];
+    }
+    return [];
+  };
+
+  it('should sign and verify tokens of OloIds', () => {
+    const token = id.toToken({ signer });
+
+    expect(token.split('.')).toHaveLength(3);
+    expect(signer.verify(token)).toBe(id.toToken());
+    expect(OloId.fromToken(token, { signer, registry }).isSame(id)).toBe(true);
+  });
+
+  it('should sign and verify tokens of OloIdSets', () => {
+    const idSet = new OloIdSet({ type: 'article', id: '123', slug: 'my-article' }, { registry });
+    const token = idSet.toToken({ signer, audience: 'web' });
+
+    expect(OloIdSet.fromToken(token, { signer, audience: 'web', registry }).toJSON()).toEqual(idSet.toJSON());
+  });
+
+  it('should reject forged tokens', () => {
+    const token = id.toToken({ signer });
+    const [, claims, signature] = token.split('.');
+    const forgedToken = [new OloId({ type: 'article', id: '456' }, { registry }).toToken(), claims, signature].join('.');
+
+    expect(getIssueCodes(() => OloId.fromToken(forgedToken, { signer, registry }))).toEqual([OloIdIssueCode.invalidSignature]);
+    expect(getIssueCodes(() => new OloIdSigner('other secret').verify(token))).toEqual([OloIdIssueCode.invalidSignature]);
+    expect(getIssueCodes(() => OloId.fromToken(id.toToken(), { signer, registry }))).toEqual([OloIdIssueCode.invalidSignature]);
+    expect(getIssueCodes(() => signer.verify(`${token}.${signature}`))).toEqual([OloIdIssueCode.invalidSignature]);
+  });
+
+  it('should reject expired tokens', () => {
+    const token = id.toToken({ signer, expiresAt: new Date('2030-01-01T00:00:00Z') });
+
+    expect(signer.verify(token, { now: new Date('2029-12-31T23:59:59Z') })).toBe(id.toToken());
+    expect(getIssueCodes(() => signer.verify(token, { now: new Date('2030-01-01T00:00:00Z') }))).toEqual([OloIdIssueCode.expired]);
+    expect(getIssueCodes(() => signer.verify(id.toToken({ signer, expiresIn: -1 })))).toEqual([OloIdIssueCode.expired]);
+    expect(signer.verify(id.toToken({ signer, expiresIn: 60 }))).toBe(id.toToken());
+  });
+
+  it('should check the audience of tokens', () => {
+    const token = id.toToken({ signer, audience: 'web' });
+
+    expect(signer.verify(token, { audience: 'web' })).toBe(id.toToken());
+    expect(signer.verify(token, { audience: ['ios', 'web'] })).toBe(id.toToken());
+    expect(getIssueCodes(() => signer.verify(token, { audience: 'ios' }))).toEqual([OloIdIssueCode.invalidAudience]);
+    expect(getIssueCodes(() => signer.verify(token))).toEqual([OloIdIssueCode.invalidAudience]);
+    expect(getIssueCodes(() => signer.verify(id.toToken({ signer }), { audience: 'web' }))).toEqual([OloIdIssueCode.invalidAudience]);
+  });
+
+  it('should require a key', () => {
+    expect(() => new OloIdSigner('')).toThrow(TypeError);
+    expect(() => new OloIdSigner(Buffer.alloc(0))).toThrow(TypeError);
+  });
+
+  it('should check if an object is an OloIdSigner', () => {
+    expect(isOloIdSigner(signer)).toBe(true);
+    expect(isOloIdSigner({ sign: () => '' })).toBe(false);
+  });
+});
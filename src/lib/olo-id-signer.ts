@@ -0,0 +1,169 @@
+import { Buffer } from 'node:buffer';
+import { BinaryLike, KeyObject, createHmac, timingSafeEqual } from 'node:crypto';
+
+import { OloIdIssueCode, OloIdSignOptions, OloIdVerifyOptions } from '../types/index.ts';
+
+import { OloIdError } from './olo-id-error.ts';
+
+/**
+ * The claims stored in a signed token next to the identifier.
+ *
+ * @private
+ */
+interface OloIdTokenClaims {
+  /**
+   * Expiry as seconds since the epoch.
+   */
+  exp?: number;
+
+  /**
+   * The audience the token is issued for.
+   */
+  aud?: string;
+}
+
+/**
+ * Signs identifier tokens with an HMAC and verifies them, so that forged or tampered
+ * identifiers (e.g. passed through URLs) can be rejected without a database round trip.
+ *
+ * A signed token consists of three base64url encoded parts joined by `.`:
+ * the identifier token, the claims (expiry and audience) and the signature over both.
+ *
+ * @example
+ * const signer = new OloIdSigner(process.env.ID_SECRET);
+ *
+ * const token = new OloId({ type: 'article', id: '123' }).toToken({ signer, expiresIn: 3600, audience: 'web' });
+ * const id = OloId.fromToken(token, { signer, audience: 'web' });
+ *
+ * OloId.fromToken(token, { signer, audience: 'ios' }); // throws OloIdError (INVALID_AUDIENCE)
+ */
+export class OloIdSigner {
+  /**
+   * The secret key used to compute the HMAC.
+   *
+   * @private
+   */
+  private key: BinaryLike | KeyObject;
+
+  /**
+   * The hash algorithm used for the HMAC.
+   *
+   * @private
+   */
+  private algorithm: string;
+
+  /**
+   * Creates an instance of OloIdSigner.
+   *
+   * @constructor
+   *
+   * @param key - The secret key used to sign and verify tokens.
+   * @param options - Optional configuration.
+   * @param options.algorithm - The hash algorithm used for the HMAC, as supported by `node:crypto`. Defaults to `sha256`.
+   *
+   * @throws {TypeError} If the key is empty.
+   */
+  constructor(key: BinaryLike | KeyObject, { algorithm = 'sha256' }: { algorithm?: string } = {}) {
+    if (!(key instanceof KeyObject) && (typeof key === 'string' ? key.length : key.byteLength) === 0) {
+      throw new TypeError('The key of an OloIdSigner must not be empty.');
+    }
+
+    this.key = key;
+    this.algorithm = algorithm;
+  }
+
+  /**
+   * Signs a token.
+   *
+   * @param token - The token to sign, usually created by `toToken()` of an OloId or OloIdSet.
+   * @param options - Optional claims of the signed token.
+   * @param options.expiresIn - The number of seconds after which the token expires.
+   * @param options.expiresAt - The point in time the token expires at. Takes precedence over `expiresIn`.
+   * @param options.audience - The audience the token is issued for.
+   *
+   * @returns The signed token.
+   *
+   * @example
+   * const signedToken = signer.sign(id.toToken(), { expiresIn: 60 });
+   */
+  public sign(token: string, { expiresIn, expiresAt, audience }: OloIdSignOptions = {}): string {
+    const claims: OloIdTokenClaims = {};
+
+    if (expiresAt || expiresIn !== undefined) {
+      claims.exp = Math.floor((expiresAt?.getTime() ?? Date.now() + (expiresIn ?? 0) * 1000) / 1000);
+    }
+    if (audience !== undefined) {
+      claims.aud = audience;
+    }
+
+    const content = `${token}.${Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url')}`;
+
+    return `${content}.${this.getSignature(content).toString('base64url')}`;
+  }
+
+  /**
+   * Verifies a signed token and returns the token it was created from.
+   *
+   * @param signedToken - The signed token.
+   * @param options - Optional configuration.
+   * @param options.audience - The audience (or list of audiences) accepted. Required if the token was issued for an audience.
+   * @param options.now - The point in time expiry is checked against. Defaults to the current time.
+   *
+   * @returns The unsigned token, e.g. to be decoded with `OloId.fromToken()`.
+   *
+   * @throws {OloIdError} If the token isn't signed with the key of this signer, has expired or was issued for another audience.
+   *
+   * @example
+   * const token = signer.verify(signedToken, { audience: 'web' });
+   */
+  public verify(signedToken: string, { audience, now = new Date() }: OloIdVerifyOptions = {}): string {
+    const [token = '', encodedClaims = '', signature = '', ...surplus] = signedToken.split('.');
+    const content = `${token}.${encodedClaims}`;
+
+    const expectedSignature = this.getSignature(content);
+    const actualSignature = Buffer.from(signature, 'base64url');
+
+    if (
+      surplus.length > 0
+      || actualSignature.length !== expectedSignature.length
+      || !timingSafeEqual(actualSignature, expectedSignature)
+    ) {
+      throw new OloIdError([{ code: OloIdIssueCode.invalidSignature, value: signedToken, message: 'The signature of the token is invalid.' }]);
+    }
+
+    const claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf8')) as OloIdTokenClaims;
+
+    if (claims.exp !== undefined && now.getTime() >= claims.exp * 1000) {
+      throw new OloIdError([{ code: OloIdIssueCode.expired, value: claims.exp, message: `The token expired at ${new Date(claims.exp * 1000).toISOString()}.` }]);
+    }
+
+    const audiences = audience === undefined ? [] : [audience].flat();
+    if ((claims.aud !== undefined || audiences.length > 0) && !audiences.includes(claims.aud as string)) {
+      throw new OloIdError([{ code: OloIdIssueCode.invalidAudience, value: claims.aud, message: `The token was issued for ${claims.aud === undefined ? 'no audience' : `audience "${claims.aud}"`}.` }]);
+    }
+
+    return token;
+  }
+
+  /**
+   * Computes the HMAC of the content of a token.
+   *
+   * @param content - The content to sign.
+   *
+   * @returns The signature.
+   *
+   * @private
+   */
+  private getSignature(content: string): Buffer {
+    return createHmac(this.algorithm, this.key).update(content).digest();
+  }
+}
+
+/**
+ * Typeguard for OloIdSigner.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a OloIdSigner
+ */
+export const isOloIdSigner = (obj: unknown): obj is OloIdSigner =>
+  obj instanceof OloIdSigner;
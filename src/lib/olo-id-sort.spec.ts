@@ -0,0 +1,40 @@
+import { OloId } from './olo-id.ts';
+import { OloIdSet } from './olo-id-set.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+import { compareOloIds, sortOloIds } from './olo-id-sort.ts';
+
+describe('OloId sorting', () => {
+  const registry = new OloIdSyntax([['id'], ['slug']], { scoped: true });
+  const first = new OloIdSet({ id: 1, slug: 'b' }, { registry });
+  const second = new OloIdSet({ id: 2, slug: 'a' }, { registry });
+  const third = new OloIdSet({ slug: 'c' }, { registry });
+
+  it('should compare OloIds and OloIdSets', () => {
+    expect(compareOloIds(first, second)).toBeLessThan(0);
+    expect(compareOloIds(second, first)).toBeGreaterThan(0);
+    expect(compareOloIds(first, new OloIdSet(first))).toBe(0);
+    expect(compareOloIds(first, second, { syntax: ['slug'] })).toBeGreaterThan(0);
+    expect(compareOloIds(new OloId({ id: 1 }, { syntax: ['id'], registry }), first)).toBeLessThan(0);
+  });
+
+  it('should sort by a syntax', () => {
+    const list = [third, second, first];
+
+    expect(sortOloIds(list, { syntax: ['id'] })).toEqual([first, second, third]);
+    expect(sortOloIds(list, { syntax: ['slug'] })).toEqual([second, first, third]);
+    expect(sortOloIds(list, { syntax: ['id'], order: 'desc' })).toEqual([third, second, first]);
+    expect(list).toEqual([third, second, first]);
+  });
+
+  it('should sort by all OloIds', () => {
+    expect(sortOloIds([third, second, first])).toEqual([first, second, third]);
+  });
+
+  it('should sort time-ordered ids by time', () => {
+    const ulidRegistry = new OloIdSyntax([{ syntax: ['id'], properties: { id: { timestamp: 'ulid' } } }], { scoped: true });
+    const ids = ['01BX5ZZKBKACTAV9WEVGEMMVRZ', '01ARYZ6S41TSV4RRFFQ69G5FAV', '01ARYZ6S42TSV4RRFFQ69G5FAV']
+      .map(id => new OloId({ id }, { syntax: ['id'], registry: ulidRegistry }));
+
+    expect(sortOloIds(ids).map(String)).toEqual(['01ARYZ6S41TSV4RRFFQ69G5FAV', '01ARYZ6S42TSV4RRFFQ69G5FAV', '01BX5ZZKBKACTAV9WEVGEMMVRZ']);
+  });
+});
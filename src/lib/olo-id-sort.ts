@@ -0,0 +1,79 @@
+import { OloIdSortOptions } from '../types/index.ts';
+
+import { OloId } from './olo-id.ts';
+import { OloIdSet, isOloIdSet } from './olo-id-set.ts';
+
+/**
+ * Collects the OloIds of an identifier that are compared when sorting, in their own order.
+ *
+ * @param identifier - An OloId or OloIdSet.
+ * @param syntax - If set, only the OloIds with this syntax are collected.
+ * @returns The sorted OloIds.
+ */
+const getSortedIds = (identifier: OloId | OloIdSet, syntax?: string[]): OloId[] =>
+  (isOloIdSet(identifier) ? Object.values(identifier['uri']) as OloId[] : [identifier])
+    .filter(id => !syntax || id['syntax'].join('\u0000') === syntax.join('\u0000'))
+    .sort((a, b) => a.compare(b));
+
+/**
+ * Compares two identifiers in a total order (see {@link OloId.compare}).
+ *
+ * OloIdSets are compared by their OloIds, sorted and compared pairwise one after another;
+ * a set whose OloIds all equal the leading OloIds of the other one comes first.
+ * Identifiers without an OloId of the given syntax come last.
+ *
+ * @param identifier - The first OloId or OloIdSet.
+ * @param other - The second OloId or OloIdSet.
+ * @param options - Optional configuration.
+ * @param options.syntax - If set, only the OloIds with this syntax are compared.
+ *
+ * @returns A negative number if `identifier` comes first, a positive number if `other` comes first, `0` if they are equal.
+ *
+ * @example
+ * const first = new OloIdSet({ id: 1, slug: 'b' }); // Assumes 'id' and 'slug' syntaxes
+ * const second = new OloIdSet({ id: 2, slug: 'a' });
+ *
+ * console.log(compareOloIds(first, second, { syntax: ['id'] }) < 0); // Output: true
+ * console.log(compareOloIds(first, second, { syntax: ['slug'] }) > 0); // Output: true
+ */
+export const compareOloIds = (
+  identifier: OloId | OloIdSet,
+  other: OloId | OloIdSet,
+  { syntax }: Pick<OloIdSortOptions, 'syntax'> = {},
+): number => {
+  const ids = getSortedIds(identifier, syntax);
+  const otherIds = getSortedIds(other, syntax);
+
+  if (ids.length === 0 || otherIds.length === 0) {
+    return Number(ids.length === 0) - Number(otherIds.length === 0);
+  }
+
+  return ids
+    .slice(0, otherIds.length)
+    .reduce((result, id, index) => result || id.compare(otherIds[index] as OloId), 0)
+    || ids.length - otherIds.length;
+};
+
+/**
+ * Sorts a list of OloIds or OloIdSets (see {@link compareOloIds}), e.g. to paginate a feed by id.
+ *
+ * @param identifiers - The OloIds or OloIdSets to sort. The list isn't modified.
+ * @param options - Optional configuration.
+ * @param options.syntax - If set, only the OloIds with this syntax are compared.
+ * @param options.order - The direction of the order, `asc` or `desc`. Defaults to `asc`.
+ *
+ * @returns A sorted copy of the list.
+ *
+ * @example
+ * const articles = [
+ *   new OloId({ id: '01ARYZ6S41TSV4RRFFQ69G5FAV' }, { syntax: ['id'] }),
+ *   new OloId({ id: '01BX5ZZKBKACTAV9WEVGEMMVRZ' }, { syntax: ['id'] }),
+ * ];
+ *
+ * console.log(sortOloIds(articles, { order: 'desc' }).map(String)); // Output: ['01BX5ZZKBKACTAV9WEVGEMMVRZ', '01ARYZ6S41TSV4RRFFQ69G5FAV']
+ */
+export const sortOloIds = <Identifier extends OloId | OloIdSet>(
+  identifiers: Identifier[],
+  { syntax, order = 'asc' }: OloIdSortOptions = {},
+): Identifier[] =>
+  [...identifiers].sort((a, b) => (order === 'desc' ? -1 : 1) * compareOloIds(a, b, { syntax }));
@@ -1,4 +1,4 @@
-import { ID_TYPE_SEPARATOR, IdSeparator } from '../types/index.ts';
+import { ID_TYPE_SEPARATOR, IdSeparator, OloIdIssueCode } from '../types/index.ts';
 
 import { OloIdSyntax } from './olo-id-syntax.ts';
 
@@ -108,4 +108,243 @@ describe('OloIdSyntax', () => {
     expect(syntax.getSyntaxes({},{register:true})).toEqual([['type1', 'type2']]);
     expect(syntax.getSyntaxes()).toEqual([['type1', 'type2']]);
   });
+
+  describe('scoped registries', () => {
+    it('should not share syntaxes with the global registry', () => {
+      const globalSyntax = new OloIdSyntax(['type1/type2']);
+      const scopedSyntax = new OloIdSyntax(['type3/type4'], { scoped: true });
+
+      expect(scopedSyntax.isScoped()).toBe(true);
+      expect(globalSyntax.isScoped()).toBe(false);
+      expect(scopedSyntax.getSyntaxes()).toEqual([['type3', 'type4']]);
+      expect(globalSyntax.getSyntaxes()).toEqual([['type1', 'type2']]);
+    });
+
+    it('should not share syntaxes with other scoped registries', () => {
+      const scopedSyntax1 = new OloIdSyntax(['type1/type2'], { scoped: true });
+      const scopedSyntax2 = new OloIdSyntax([], { scoped: true });
+
+      scopedSyntax2.getSyntaxes('type3/type4', { register: true });
+
+      expect(scopedSyntax1.getSyntaxes()).toEqual([['type1', 'type2']]);
+      expect(scopedSyntax2.getSyntaxes()).toEqual([['type3', 'type4']]);
+    });
+
+    it('should use its own separator', () => {
+      new OloIdSyntax();
+      const scopedSyntax = new OloIdSyntax(['type1-type2'], { scoped: true, seperator: '-' });
+
+      expect(scopedSyntax.getSeparator()).toBe('-');
+      expect(new OloIdSyntax().getSeparator()).toBe(ID_TYPE_SEPARATOR);
+      expect(scopedSyntax.getSyntaxes('type1-type2')).toEqual([['type1', 'type2']]);
+    });
+
+    it('should inherit syntaxes from its parent', () => {
+      const parentSyntax = new OloIdSyntax(['type1/type2'], { scoped: true });
+      const childSyntax = parentSyntax.fork([['type3', 'type4']]);
+
+      expect(childSyntax.isScoped()).toBe(true);
+      expect(childSyntax.getSyntaxes()).toEqual([['type1', 'type2'], ['type3', 'type4']]);
+      expect(childSyntax.getSyntaxes({ type1: 'value1', type2: 'value2' })).toEqual([['type1', 'type2']]);
+      expect(parentSyntax.getSyntaxes()).toEqual([['type1', 'type2']]);
+
+      parentSyntax.setSyntaxes(['type5']);
+      expect(childSyntax.getSyntaxes()).toEqual([['type1', 'type2'], ['type5'], ['type3', 'type4']]);
+    });
+
+    it('should inherit the separator from its parent', () => {
+      const parentSyntax = new OloIdSyntax([], { scoped: true, seperator: '-' });
+
+      expect(parentSyntax.fork().getSeparator()).toBe('-');
+      expect(parentSyntax.fork([], { seperator: ':' }).getSeparator()).toBe(':');
+    });
+
+    it('should fork the global registry', () => {
+      const globalSyntax = new OloIdSyntax(['type1/type2']);
+      const childSyntax = globalSyntax.fork(['type3/type4']);
+
+      expect(childSyntax.getSyntaxes()).toEqual([['type1', 'type2'], ['type3', 'type4']]);
+      expect(globalSyntax.getSyntaxes()).toEqual([['type1', 'type2']]);
+    });
+
+    it('should return the undefined syntax for an empty fork of an empty registry', () => {
+      const childSyntax = new OloIdSyntax([], { scoped: true }).fork();
+
+      expect(childSyntax.getSyntaxes()).toEqual([['UNDEFINED']]);
+    });
+  });
+
+  describe('syntax definitions', () => {
+    it('should register syntax definitions', () => {
+      const syntax = new OloIdSyntax([{ syntax: ['username', 'domain'], separator: '@' }, 'type1/type2']);
+      expect(syntax.getSyntaxes()).toEqual([['username', 'domain'], ['type1', 'type2']]);
+      expect(syntax.getSyntaxes({ username: 'value1', domain: 'value2' })).toEqual([['username', 'domain']]);
+    });
+
+    it('should return the definition of a registered syntax', () => {
+      const syntax = new OloIdSyntax([{ syntax: ['username', 'domain'], separator: '@', prefix: 'mailto:' }, 'type1/type2']);
+      expect(syntax.getDefinition(['username', 'domain'])).toEqual({ syntax: ['username', 'domain'], separator: '@', prefix: 'mailto:', suffix: '' });
+      expect(syntax.getDefinition('type1/type2')).toEqual({ syntax: ['type1', 'type2'], separator: '/', prefix: '', suffix: '' });
+      expect(syntax.getDefinition(['type2', 'type1'])).toBeUndefined();
+      expect(syntax.getDefinition('type3')).toBeUndefined();
+    });
+
+    it('should replace a definition only with another definition', () => {
+      const syntax = new OloIdSyntax([{ syntax: ['username', 'domain'], separator: '@' }]);
+
+      syntax.setSyntaxes([['username', 'domain']]);
+      expect(syntax.getDefinition(['username', 'domain'])?.separator).toBe('@');
+
+      syntax.setSyntaxes([{ syntax: ['username', 'domain'], separator: ':' }]);
+      expect(syntax.getDefinition(['username', 'domain'])?.separator).toBe(':');
+      expect(syntax.getSyntaxes()).toEqual([['username', 'domain']]);
+    });
+
+    it('should return definitions inherited from the parent', () => {
+      const parentSyntax = new OloIdSyntax([{ syntax: ['username', 'domain'], separator: '@' }], { scoped: true });
+      const childSyntax = parentSyntax.fork([['type1', 'type2']], { seperator: '-' });
+
+      expect(childSyntax.getDefinition(['username', 'domain'])?.separator).toBe('@');
+      expect(childSyntax.getDefinition(['type1', 'type2'])?.separator).toBe('-');
+      expect(parentSyntax.getDefinition(['type1', 'type2'])).toBeUndefined();
+    });
+  });
+
+  describe('validate', () => {
+    const uuid = '3f2504e0-4f89-41d3-9a0c-0305e82c3301';
+    const syntax = new OloIdSyntax([
+      {
+        syntax: ['type', 'id', 'slug', 'user', 'count', 'code'],
+        properties: {
+          type: { enum: ['article', 'video'] },
+          id: 'uuid',
+          slug: 'slug',
+          user: { type: 'emailLocalPart', optional: true },
+          count: 'integer',
+          code: { pattern: '^[A-Z]+$', minLength: 2, maxLength: 4 },
+        },
+      },
+    ], { scoped: true });
+    const properties = ['type', 'id', 'slug', 'user', 'count', 'code'];
+    const validUri = { type: 'article', id: uuid, slug: 'my-article-2', user: 'albert.einstein', count: '-12', code: 'ABC' };
+
+    it('should return no issues for valid values', () => {
+      expect(syntax.validate(validUri, properties)).toEqual([]);
+      expect(syntax.validate({ ...validUri, count: 12, user: undefined as unknown as string }, properties)).toEqual([]);
+    });
+
+    it('should report missing values', () => {
+      expect(syntax.validate({ ...validUri, id: '', slug: undefined as unknown as string }, properties)).toEqual([
+        { code: OloIdIssueCode.missingValue, property: 'id', value: '', message: 'Property "id" is missing a value.' },
+        { code: OloIdIssueCode.missingValue, property: 'slug', value: undefined, message: 'Property "slug" is missing a value.' },
+      ]);
+      expect(syntax.validate({ ...validUri, id: '' }, properties, { partial: true })).toEqual([]);
+    });
+
+    it('should report values of the wrong type', () => {
+      const issues = syntax.validate({ ...validUri, id: 'abc', slug: 'My Article', user: 'albert..einstein', count: 1.5 }, properties);
+      expect(issues.map(issue => [issue.code, issue.property])).toEqual([
+        [OloIdIssueCode.invalidType, 'id'],
+        [OloIdIssueCode.invalidType, 'slug'],
+        [OloIdIssueCode.invalidType, 'user'],
+        [OloIdIssueCode.invalidType, 'count'],
+      ]);
+    });
+
+    it('should report violated constraints', () => {
+      expect(syntax.validate({ ...validUri, type: 'image' }, properties).map(issue => issue.code)).toEqual([OloIdIssueCode.invalidEnum]);
+      expect(syntax.validate({ ...validUri, code: 'abc' }, properties).map(issue => issue.code)).toEqual([OloIdIssueCode.patternMismatch]);
+      expect(syntax.validate({ ...validUri, code: 'A' }, properties).map(issue => issue.code)).toEqual([OloIdIssueCode.tooShort]);
+      expect(syntax.validate({ ...validUri, code: 'ABCDE' }, properties).map(issue => issue.code)).toEqual([OloIdIssueCode.tooLong]);
+    });
+
+    it('should not validate syntaxes without property declarations', () => {
+      syntax.setSyntaxes(['type/id']);
+      expect(syntax.validate({ type: 'image', id: '' }, ['type', 'id'])).toEqual([]);
+      expect(syntax.validate({ type: 'image', id: '' }, ['unknown'])).toEqual([]);
+    });
+  });
+
+  describe('normalize', () => {
+    const syntaxManager = new OloIdSyntax([{
+      syntax: ['username', 'domain', 'id'],
+      properties: {
+        username: { normalize: ['trim', 'nfc'] },
+        domain: { normalize: ['trim', 'lowercase', 'punycode'] },
+        id: { type: 'integer', normalize: 'number' },
+      },
+    }], { scoped: true });
+
+    it('should apply the declared normalizers in order', () => {
+      expect(syntaxManager.normalize({ username: ' Ame\u0301lie ', domain: ' Bücher.DE', id: '42' }, ['username', 'domain', 'id'])).toEqual({
+        username: 'Am\u00e9lie',
+        domain: 'xn--bcher-kva.de',
+        id: 42,
+      });
+    });
+
+    it('should keep values that are no internationalized domain names', () => {
+      expect(syntaxManager.normalize({ domain: 'oloteo.com' }, ['username', 'domain', 'id'])).toEqual({ domain: 'oloteo.com' });
+      expect(syntaxManager.normalize({ domain: 'bü/cher' }, ['username', 'domain', 'id'])).toEqual({ domain: 'bü/cher' });
+    });
+
+    it('should keep missing and non-numeric values', () => {
+      expect(syntaxManager.normalize({ username: 'albert', id: 'abc' }, ['username', 'domain', 'id'])).toEqual({ username: 'albert', id: 'abc' });
+      expect(syntaxManager.normalize({ domain: '', id: 'UNDEFINED' }, ['username', 'domain', 'id'])).toEqual({ domain: '', id: 'UNDEFINED' });
+    });
+
+    it('should apply custom normalizers', () => {
+      const customManager = new OloIdSyntax([{ syntax: ['code'], properties: { code: { normalize: (value: string | number) => String(value).replace(/-/g, '') } } }], { scoped: true });
+      expect(customManager.normalize({ code: 'AB-12-C' }, ['code'])).toEqual({ code: 'AB12C' });
+    });
+
+    it('should not normalize syntaxes without declarations', () => {
+      expect(syntaxManager.normalize({ domain: 'Oloteo.com' }, ['domain'])).toEqual({ domain: 'Oloteo.com' });
+    });
+
+    it('should not require properties declared only with normalizers', () => {
+      expect(syntaxManager.validate({ id: 42 }, ['username', 'domain', 'id'])).toEqual([]);
+      expect(syntaxManager.validate({ username: 'albert', domain: 'oloteo.com' }, ['username', 'domain', 'id']).map(issue => issue.property)).toEqual(['id']);
+    });
+  });
+
+  describe('hierarchies', () => {
+    const registry = new OloIdSyntax([
+      ['org'],
+      { syntax: ['org', 'project', 'item'], hierarchical: true, separator: ':', properties: { project: 'slug', item: 'slug' } },
+      { syntax: ['org', 'team'], hierarchical: true },
+    ], { scoped: true });
+
+    it('should find the hierarchies of a syntax', () => {
+      expect(registry.getHierarchies(['org'])).toEqual([['org', 'project', 'item'], ['org', 'team']]);
+      expect(registry.getHierarchies('org:project'.split(':'))).toEqual([['org', 'project', 'item']]);
+      expect(registry.getHierarchies(['project'])).toEqual([]);
+    });
+
+    it('should resolve the definitions of levels', () => {
+      expect(registry.getDefinition(['org', 'project'])).toEqual({
+        syntax: ['org', 'project'],
+        hierarchical: true,
+        separator: ':',
+        prefix: '',
+        suffix: '',
+        properties: { project: 'slug' },
+      });
+      expect(registry.getDefinition(['org'])?.separator).toBe(ID_TYPE_SEPARATOR);
+      expect(registry.getDefinition(['project', 'org'])).toBeUndefined();
+      expect(registry.getSyntaxes({ org: 'oloteo', project: 'website' })).toEqual([['org']]);
+    });
+
+    it('should pick up hierarchies registered after a lookup', () => {
+      const parent = new OloIdSyntax([['site']], { scoped: true });
+      const child = parent.fork([['site', 'page']]);
+
+      expect(child.getDefinition(['site', 'section'])).toBeUndefined();
+
+      parent.setSyntaxes([{ syntax: ['site', 'section', 'page'], hierarchical: true }]);
+
+      expect(child.getHierarchies(['site', 'section'])).toEqual([['site', 'section', 'page']]);
+      expect(child.getDefinition(['site', 'section'])?.syntax).toEqual(['site', 'section']);
+    });
+  });
 });
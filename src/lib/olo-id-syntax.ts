@@ -1,4 +1,229 @@
-import { ID_TYPE_SEPARATOR, ID_TYPE_UNDEFINED, IdSeparator, OloUri } from '../types/index.ts';
+
+import {
+  ID_PROP_UNDEFINED,
+  ID_TYPE_SEPARATOR,
+  ID_TYPE_UNDEFINED,
+  IdSeparator,
+  OloIdIssue,
+  OloIdIssueCode,
+  OloIdGeneratorOptions,
+  OloIdGeneratorStrategy,
+  OloIdNormalizer,
+  OloIdNormalizerName,
+  OloIdPropertyKind,
+  OloIdPropertyType,
+  OloIdSyntaxDefinition,
+  OloIdSyntaxEntry,
+  OloUri,
+  isOloIdSyntaxDefinition,
+} from '../types/index.ts';
+
+import { generateNanoId, generateUlid, generateUuidV4, generateUuidV7, slugify } from './olo-id-generator.ts';
+
+/**
+ * Regular expressions the string representation of a value needs to match for each
+ * built-in {@link OloIdPropertyKind} (except `string`, which accepts any value).
+ */
+const PROPERTY_KIND_PATTERNS: Record<Exclude<OloIdPropertyKind, 'string'>, RegExp> = {
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  integer: /^[+-]?\d+$/,
+  slug: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+  emailLocalPart: /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/,
+};
+
+/**
+ * Human-readable names of the built-in property kinds used in issue messages.
+ */
+const PROPERTY_KIND_NAMES: Record<OloIdPropertyKind, string> = {
+  string: 'string',
+  uuid: 'uuid',
+  integer: 'integer',
+  slug: 'slug',
+  emailLocalPart: 'email local part',
+};
+
+/**
+ * Checks whether a value is considered missing: `undefined`, `null`, an empty string or {@link ID_PROP_UNDEFINED}.
+ *
+ * @param value - The value to check.
+ * @returns `true` if the value is missing.
+ */
+const isMissingValue = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || value === ID_PROP_UNDEFINED;
+
+/**
+ * Checks whether a (non-missing) value is of a built-in property kind.
+ *
+ * @param value - The value to check.
+ * @param kind - The property kind the value is expected to be of.
+ * @returns `true` if the value is of the given kind.
+ */
+const isOfPropertyKind = (value: unknown, kind: OloIdPropertyKind): boolean => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return false;
+  }
+  if (kind === 'string') {
+    return true;
+  }
+  if (typeof value === 'number') {
+    return kind === 'integer' && Number.isInteger(value);
+  }
+
+  return PROPERTY_KIND_PATTERNS[kind].test(value) && (kind !== 'emailLocalPart' || value.length <= 64);
+};
+
+/**
+ * Checks whether a property declaration restricts its values, i.e. declares a type or a constraint.
+ * Properties declared only with e.g. normalizers or generators don't restrict their values and are optional.
+ *
+ * @param propertyType - The declared type of the property.
+ * @returns `true` if the declaration restricts the values of the property.
+ */
+const isConstrainedProperty = (propertyType: OloIdPropertyType): boolean =>
+  propertyType.type !== undefined
+  || propertyType.enum !== undefined
+  || propertyType.pattern !== undefined
+  || propertyType.minLength !== undefined
+  || propertyType.maxLength !== undefined;
+
+/**
+ * Validates a single property value against its declared type.
+ *
+ * @param property - The name of the property.
+ * @param value - The value of the property.
+ * @param propertyType - The declared type of the property.
+ * @param partial - If `true`, missing values are not reported.
+ * @returns A list of the issues found for the value, empty if the value is valid. Missing values are only
+ *   reported for required properties declaring a type or a constraint.
+ */
+const validateProperty = (property: string, value: unknown, propertyType: OloIdPropertyType, partial: boolean): OloIdIssue[] => {
+  if (isMissingValue(value)) {
+    return partial || propertyType.optional || !isConstrainedProperty(propertyType)
+      ? []
+      : [{ code: OloIdIssueCode.missingValue, property, value, message: `Property "${property}" is missing a value.` }];
+  }
+
+  const issues: OloIdIssue[] = [];
+  const kind = propertyType.type ?? 'string';
+  const stringValue = String(value);
+
+  if (!isOfPropertyKind(value, kind)) {
+    issues.push({ code: OloIdIssueCode.invalidType, property, value, message: `Value of property "${property}" is not a valid ${PROPERTY_KIND_NAMES[kind]}.` });
+  }
+  if (propertyType.enum && !propertyType.enum.some(item => String(item) === stringValue)) {
+    issues.push({ code: OloIdIssueCode.invalidEnum, property, value, message: `Value of property "${property}" must be one of: ${propertyType.enum.join(', ')}.` });
+  }
+  if (propertyType.pattern !== undefined && !new RegExp(propertyType.pattern).test(stringValue)) {
+    issues.push({ code: OloIdIssueCode.patternMismatch, property, value, message: `Value of property "${property}" doesn't match the pattern ${String(propertyType.pattern)}.` });
+  }
+  if (propertyType.minLength !== undefined && stringValue.length < propertyType.minLength) {
+    issues.push({ code: OloIdIssueCode.tooShort, property, value, message: `Value of property "${property}" must be at least ${propertyType.minLength} characters long.` });
+  }
+  if (propertyType.maxLength !== undefined && stringValue.length > propertyType.maxLength) {
+    issues.push({ code: OloIdIssueCode.tooLong, property, value, message: `Value of property "${property}" must be at most ${propertyType.maxLength} characters long.` });
+  }
+
+  return issues;
+};
+
+/**
+ * Converts an internationalized domain name to its ASCII (punycode) form with the WHATWG URL parser,
+ * which is available in every runtime. ASCII values, and values that are no valid host, are returned unchanged.
+ *
+ * @param value - The domain name.
+ *
+ * @returns The ASCII form of the domain name.
+ */
+const toAsciiDomain = (value: string): string => {
+  if (!/[^\u0000-\u007f]/.test(value) || /[\s/?#@:\\[\]%]/.test(value)) {
+    return value;
+  }
+
+  try {
+    return new URL(`http://${value}`).hostname || value;
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Implementations of the built-in {@link OloIdNormalizerName}s. Values of other types than the
+ * ones a normalizer handles are returned unchanged.
+ */
+const NORMALIZERS: Record<OloIdNormalizerName, (value: string | number) => string | number> = {
+  lowercase: value => typeof value === 'string' ? value.toLowerCase() : value,
+  trim: value => typeof value === 'string' ? value.trim() : value,
+  nfc: value => typeof value === 'string' ? value.normalize('NFC') : value,
+  punycode: value => typeof value === 'string' ? toAsciiDomain(value) : value,
+  number: value => typeof value === 'string' && /^[+-]?\d+(?:\.\d+)?$/.test(value.trim()) ? Number(value) : value,
+};
+
+/**
+ * Applies the normalizers declared for a property to its value.
+ *
+ * @param value - The value of the property.
+ * @param normalizers - The declared normalizers.
+ * @returns The normalized value. Missing values are returned unchanged.
+ */
+const normalizeProperty = (value: unknown, normalizers: OloIdNormalizer | OloIdNormalizer[]): unknown => {
+  if (isMissingValue(value) || (typeof value !== 'string' && typeof value !== 'number')) {
+    return value;
+  }
+
+  return [normalizers].flat().reduce(
+    (normalized, normalizer) => typeof normalizer === 'function' ? normalizer(normalized) : NORMALIZERS[normalizer](normalized),
+    value,
+  );
+};
+
+/**
+ * The last values generated by `counter` generators, kept per property declaration.
+ */
+const COUNTERS = new WeakMap<OloIdPropertyType, number>();
+
+/**
+ * The implementations of the built-in {@link OloIdGeneratorStrategy}s.
+ * Generators return `undefined` if they can't generate a value (e.g. a slug without a label).
+ */
+const GENERATORS: Record<
+  OloIdGeneratorStrategy,
+  (options: OloIdGeneratorOptions, uri: { [property: string]: unknown }, propertyType: OloIdPropertyType) => string | number | undefined
+> = {
+  uuid: () => generateUuidV4(),
+  uuidv7: () => generateUuidV7(),
+  ulid: () => generateUlid(),
+  nanoid: ({ size }) => generateNanoId(size),
+  counter: ({ start = 1 }, _uri, propertyType) => {
+    const value = (COUNTERS.get(propertyType) ?? start - 1) + 1;
+    COUNTERS.set(propertyType, value);
+    return value;
+  },
+  slug: ({ from = 'label' }, uri) => {
+    const label = uri[from];
+    return isMissingValue(label) ? undefined : slugify(String(label)) || undefined;
+  },
+};
+
+/**
+ * Generates a value for a property with the generator declared for it.
+ *
+ * @param propertyType - The declaration of the property, holding the generator.
+ * @param uri - The values of the identifier known so far.
+ * @returns The generated value, or `undefined` if no value could be generated.
+ */
+const generateProperty = (propertyType: OloIdPropertyType, uri: { [property: string]: unknown }): string | number | undefined => {
+  const generator = propertyType.generate;
+
+  if (generator === undefined) {
+    return undefined;
+  }
+  if (typeof generator === 'function') {
+    return generator(uri);
+  }
+
+  const options = typeof generator === 'string' ? { strategy: generator } : generator;
+  return GENERATORS[options.strategy](options, uri, propertyType);
+};
 
 /**
  * Defines optional configuration parameters for the `OloIdSyntax` class constructor.
@@ -19,17 +244,46 @@ export interface OloIdSyntaxOptions<Separator extends string = IdSeparator> {
    * @default ID_TYPE_SEPARATOR ('/')
    */
   seperator?: Separator;
+
+  /**
+   * If `true`, the instance manages its own registry instead of the global default registry.
+   *
+   * Scoped registries don't share their syntaxes or their separator with any other instance,
+   * so they can be handed to {@link OloId}, {@link OloIdSet} or {@link OloDescriptor} via the
+   * `registry` option and simply be thrown away once they are not needed anymore.
+   *
+   * @default false
+   */
+  scoped?: boolean;
+
+  /**
+   * A registry the new instance inherits its syntaxes (and separator, unless `seperator` is set) from.
+   *
+   * Providing a parent always creates a scoped registry. Syntaxes registered on the new instance
+   * never leak into the parent, while syntaxes registered on the parent later on remain visible.
+   *
+   * @optional
+   */
+  parent?: OloIdSyntax<string>;
 }
 
 /**
- * Manages the registration and retrieval of OloId syntaxes globally.
+ * Manages the registration and retrieval of OloId syntaxes.
  *
  * A syntax defines the ordered list of property names for a specific type of `OloId`.
- * This class acts as a central registry, allowing `OloId` instances to look up,
- * validate, and potentially register new syntaxes. It also manages the global
+ * This class acts as a registry, allowing `OloId` instances to look up,
+ * validate, and potentially register new syntaxes. It also manages the
  * default separator used for parsing and joining syntax strings.
  *
- * Syntaxes are stored internally as separator-joined strings in a static `Set`
+ * By default every instance works on the global registry, which is stored in a static `Set`
+ * and shared across the whole process. Instances created with the `scoped` or `parent` option
+ * manage a registry of their own instead, which allows several independent syntax schemas
+ * (e.g. per tenant) to live side by side.
+ *
+ * Every syntax can carry its own separator, prefix and suffix (see {@link OloIdSyntaxDefinition}),
+ * which `OloId` uses to render and parse identifiers of that syntax.
+ *
+ * Syntaxes are stored internally in a `Map` keyed by their separator-joined property names
  * to ensure uniqueness and efficient lookup.
  *
  * @template Separator - The string literal type representing the default separator character(s)
@@ -53,6 +307,15 @@ export interface OloIdSyntaxOptions<Separator extends string = IdSeparator> {
  *
  * // Get all registered syntaxes
  * console.log(syntaxManager.getSyntaxes()); // Output: [['type', 'id'], ['category', 'code'], ['section', 'key']]
+ *
+ * // Register a syntax with its own separator
+ * syntaxManager.setSyntaxes([{ syntax: ['username', 'domain'], separator: '@' }]);
+ * console.log(new OloId('albert.einstein@oloteo.com', { syntax: ['username', 'domain'] }).toJSON());
+ * // Output: { username: 'albert.einstein', domain: 'oloteo.com' }
+ *
+ * // Create a scoped registry that doesn't touch the global one
+ * const tenantSyntaxes = new OloIdSyntax([['username', 'domain']], { scoped: true });
+ * const user = new OloId({ username: 'albert.einstein', domain: 'oloteo.com' }, { registry: tenantSyntaxes });
  */
 export class OloIdSyntax<Separator extends string = IdSeparator> {
   /**
@@ -68,30 +331,73 @@ export class OloIdSyntax<Separator extends string = IdSeparator> {
   private static separator: IdSeparator;
 
   /**
-   * Stores the registered OloId syntaxes globally as separator-joined strings.
+   * Stores the registered OloId syntax definitions globally, keyed by their separator-joined property names.
    *
-   * Using a `Set` ensures that each unique syntax string is stored only once.
+   * Using a `Map` ensures that each unique syntax is stored only once.
    * This registry is shared across all instances of `OloIdSyntax` and `OloId`.
    *
    * @static
    * @private
    */
-  private static syntaxes: Set<string> = new Set();
+  private static syntaxes: Map<string, OloIdSyntaxDefinition> = new Map();
+
+  /**
+   * Counts the changes made to any registry, global or scoped. Caches derived from the registries
+   * are valid as long as the revision they were built for is current.
+   *
+   * @static
+   * @private
+   */
+  private static revision = 0;
+
+  /**
+   * The registry this instance works on. Refers to the static `syntaxes` Map unless
+   * the instance is scoped, in which case it holds only the syntaxes registered on this instance.
+   *
+   * @private
+   */
+  private registry: Map<string, OloIdSyntaxDefinition>;
+
+  /**
+   * The separator of a scoped registry. Global instances use the static `separator` instead.
+   *
+   * @private
+   */
+  private scopedSeparator?: Separator;
+
+  /**
+   * The registry a scoped instance inherits its syntaxes from.
+   *
+   * @private
+   */
+  private parent?: OloIdSyntax<string>;
+
+  /**
+   * The definitions of the hierarchical syntaxes visible to this instance (including inherited ones),
+   * cached for the registry revision they were collected at, so level lookups don't scan every definition.
+   *
+   * @private
+   */
+  private hierarchyCache?: { revision: number; definitions: ReturnType<OloIdSyntax['getDefinitions']> };
 
   /**
    * Initializes the OloIdSyntax manager.
    *
-   * Sets the global separator if it hasn't been set already by a previous instance,
-   * and registers the provided initial syntaxes into the static registry.
+   * Global instances set the global separator if it hasn't been set already by a previous instance,
+   * and register the provided initial syntaxes into the static registry. Scoped instances
+   * register the syntaxes into their own registry instead.
    *
    * @constructor
    *
    * @param syntaxes - An array of initial syntaxes to register. Each syntax can be a
-   *   separator-joined string (e.g., "type/id") or an array of strings (e.g., ['type', 'id']).
-   *   Defaults to `[]` if no syntaxes are provided.
+   *   separator-joined string (e.g., "type/id"), an array of strings (e.g., ['type', 'id'])
+   *   or an {@link OloIdSyntaxDefinition}. Defaults to `[]` if no syntaxes are provided.
    * @param options - Configuration options for the syntax manager.
    * @param options.seperator - The separator character or string to be used globally.
    *   This is set only once by the first instance created. Defaults to `ID_TYPE_SEPARATOR` (usually '/').
+   *   Scoped instances use it for their own registry, defaulting to the separator of their `parent`.
+   * @param options.scoped - If `true`, the instance manages its own registry. Defaults to `false`.
+   * @param options.parent - A registry to inherit syntaxes from. Implies `scoped`.
    *
    * @example
    * // Initialize with default separator and 'undefined' syntax
@@ -100,15 +406,27 @@ export class OloIdSyntax<Separator extends string = IdSeparator> {
    * // Initialize with custom separator and specific syntaxes
    * const syntaxManager2 = new OloIdSyntax(['type-id', ['category', 'code']], { seperator: '-' });
    * // Note: The separator '-' will only be set globally if this is the first instance.
+   *
+   * // Initialize a scoped registry and fork it
+   * const parentManager = new OloIdSyntax(['type/id'], { scoped: true });
+   * const childManager = parentManager.fork([['username', 'domain']]);
    */
-  constructor (syntaxes: (string | string[])[] = [], { seperator = ID_TYPE_SEPARATOR as Separator }: OloIdSyntaxOptions<Separator> = {}) {
-    OloIdSyntax.separator = OloIdSyntax.separator ?? seperator as IdSeparator;
+  constructor (syntaxes: OloIdSyntaxEntry[] = [], { seperator, scoped = false, parent }: OloIdSyntaxOptions<Separator> = {}) {
+    if (scoped || parent) {
+      this.registry = new Map();
+      this.scopedSeparator = seperator ?? (parent?.getSeparator() ?? ID_TYPE_SEPARATOR) as Separator;
+      this.parent = parent;
+    } else {
+      OloIdSyntax.separator = OloIdSyntax.separator ?? (seperator ?? ID_TYPE_SEPARATOR) as IdSeparator;
+      this.registry = OloIdSyntax.syntaxes;
+    }
 
     this.registerSyntaxes(syntaxes);
   }
 
   /**
-   * Gets the globally configured separator character or string.
+   * Gets the configured separator character or string of the registry this instance works on
+   * (the global separator unless the instance is scoped).
    *
    * This separator is used by default for joining and splitting syntax strings
    * within the `OloIdSyntax` registry and related `OloId` instances.
@@ -124,39 +442,96 @@ export class OloIdSyntax<Separator extends string = IdSeparator> {
    * // Assuming this was the first instance, it sets the global separator
    * console.log(syntaxManagerCustom.getSeparator()); // Output: '-'
    */
-  public getSeparator(): Separator { return OloIdSyntax.separator as Separator; }
+  public getSeparator(): Separator { return (this.scopedSeparator ?? OloIdSyntax.separator) as Separator; }
+
+  /**
+   * Indicates whether this instance manages its own registry or works on the global one.
+   *
+   * @returns `true` if the instance was created with the `scoped` or `parent` option.
+   */
+  public isScoped(): boolean { return this.registry !== OloIdSyntax.syntaxes; }
 
   /**
-   * Converts the Set of registered syntax strings into an array of string arrays (a matrix).
+   * Creates a scoped registry that inherits all syntaxes of this instance.
+   *
+   * Syntaxes registered on the fork stay local to it, which makes forks a cheap way to
+   * extend a shared schema (e.g. per tenant or per test) without modifying the original.
+   *
+   * @param syntaxes - Additional syntaxes to register on the fork.
+   * @param options - Configuration options for the fork.
+   * @param options.seperator - A separator for the fork. Defaults to the separator of this instance.
+   *
+   * @returns A new scoped `OloIdSyntax` instance whose parent is this instance.
+   *
+   * @example
+   * const base = new OloIdSyntax(['type/id'], { scoped: true });
+   * const tenant = base.fork([['username', 'domain']]);
+   *
+   * console.log(tenant.getSyntaxes()); // Output: [['type', 'id'], ['username', 'domain']]
+   * console.log(base.getSyntaxes()); // Output: [['type', 'id']]
+   */
+  public fork<ForkSeparator extends string = Separator>(
+    syntaxes: OloIdSyntaxEntry[] = [],
+    { seperator }: Pick<OloIdSyntaxOptions<ForkSeparator>, 'seperator'> = {},
+  ): OloIdSyntax<ForkSeparator> {
+    return new OloIdSyntax<ForkSeparator>(syntaxes, { seperator, parent: this });
+  }
+
+  /**
+   * Converts the Map of registered syntax definitions into an array of string arrays (a matrix).
    *
    * Each inner array represents a single syntax, with its elements being the ordered property names.
-   * This provides a more structured representation compared to the internal separator-joined strings.
+   * This provides a more structured representation compared to the internal definitions.
    *
+   * If the map is the registry of a forked instance, the syntaxes inherited from the parent are
+   * included (parent syntaxes first) and the `ID_TYPE_UNDEFINED` placeholder is only kept if no
+   * syntax is registered at all.
    *
-   * @param set - The Set of syntax strings (joined by the global separator) to convert.
-   *   Defaults to the static `syntaxes` Set containing all registered syntaxes.
+   * @param set - The Map of syntax definitions to convert.
+   *   Defaults to the registry of this instance containing all registered syntaxes.
    *
    * @returns An array where each element is an array of property names representing a registered syntax.
    *
    * @example
-   * // Assuming OloIdSyntax.syntaxes contains {'type/id', 'category/code'} and separator is '/'
+   * // Assuming OloIdSyntax.syntaxes contains the syntaxes 'type/id' and 'category/code'
    * const matrix = this.getSyntaxMatrix();
    * // matrix would be: [['type', 'id'], ['category', 'code']]
    *
    * @private
    */
-  private getSyntaxMatrix(set = OloIdSyntax.syntaxes) { return Array.from(set).map(syntax => syntax.split(OloIdSyntax.separator)); }
+  private getSyntaxMatrix(set = this.registry): string[][] {
+    const matrix = Array.from(set.values()).map(definition => [...definition.syntax]);
+
+    if (!this.parent || set !== this.registry) {
+      return matrix;
+    }
+
+    const syntaxKeys = new Set<string>();
+    const inheritedMatrix = [...this.parent.getSyntaxes(), ...matrix].filter(
+      (syntax) => {
+        const syntaxKey = syntax.join('\u0000');
+        if (syntaxKey === ID_TYPE_UNDEFINED || syntaxKeys.has(syntaxKey)) {
+          return false;
+        }
+        syntaxKeys.add(syntaxKey);
+        return true;
+      }
+    );
+
+    return inheritedMatrix.length > 0 ? inheritedMatrix : [[ID_TYPE_UNDEFINED]];
+  }
 
   /**
    * Normalizes various syntax input formats into a sorted array of non-empty strings.
    *
    * This internal helper method takes a syntax definition provided as a separator-joined string,
-   * an array of strings, or an OloUri object, and converts it into a canonical representation:
+   * an array of strings, an {@link OloIdSyntaxDefinition} or an OloUri object, and converts it into a canonical representation:
    * an array of property name strings, sorted alphabetically, with any empty strings removed.
    *
    * @param syntax - The input syntax definition. Can be:
    *   - `string`: A string with property names joined by the global separator (e.g., "type/id").
    *   - `string[]`: An array of property name strings (e.g., ['type', 'id']).
+   *   - `OloIdSyntaxDefinition`: A definition whose `syntax` holds the property names.
    *   - `OloUri`: An object where keys represent the property names.
    *   - `undefined`: Handled gracefully, resulting in an empty array.
    *
@@ -174,52 +549,63 @@ export class OloIdSyntax<Separator extends string = IdSeparator> {
    *
    * @private
    */
-  private normSyntax(syntax?: string | string[] | OloUri): string[] {
+  private normSyntax(syntax?: OloIdSyntaxEntry | OloUri): string[] {
     const normSyntax = typeof syntax === 'string'
-      ? syntax.split(OloIdSyntax.separator)
+      ? syntax.split(this.getSeparator())
       : Array.isArray(syntax)
         ? syntax
-        : Object.keys(syntax ?? {}).sort();
+        : isOloIdSyntaxDefinition(syntax)
+          ? syntax.syntax
+          : Object.keys(syntax ?? {}).sort();
 
     return normSyntax.filter(syntaxItem => !!syntaxItem);
   }
 
   /**
-   * Registers multiple syntaxes into a specified Set after normalization.
+   * Registers multiple syntaxes into a specified Map after normalization.
    *
-   * This internal method iterates through an array of syntax definitions (strings or string arrays),
+   * This internal method iterates through an array of syntax entries (strings, string arrays or definitions),
    * normalizes each one using `normSyntax` (sorting properties and removing empty parts),
-   * and adds the valid, normalized, separator-joined string representation to the target Set
+   * and stores the resulting definition under its separator-joined key in the target Map
    * (usually the static `syntaxes` registry).
    *
-   * It also ensures that the default `ID_TYPE_UNDEFINED` syntax is added to an empty set and is removed from the Set
+   * Registering an {@link OloIdSyntaxDefinition} for a syntax that is already registered replaces
+   * its separator, prefix and suffix. Registering a plain string or array keeps an existing definition.
+   *
+   * It also ensures that the default `ID_TYPE_UNDEFINED` syntax is added to an empty map and is removed from the Map
    * once any valid syntax is registered.
    *
    * @param syntaxes - An array of syntaxes to register. Each element can be a
-   *   separator-joined string or an array of property name strings.
+   *   separator-joined string, an array of property name strings or an `OloIdSyntaxDefinition`.
    * @param options - Optional configuration.
-   * @param options.set - The Set object into which the normalized syntaxes should be added.
-   *   Defaults to the static `OloIdSyntax.syntaxes` registry.
+   * @param options.set - The Map object into which the normalized syntaxes should be added.
+   *   Defaults to the registry of this instance.
    *
    * @returns The updated syntax matrix (array of string arrays) representing the state
-   *   of the target Set after the registration process.
+   *   of the target Map after the registration process.
    *
    * @private
    */
   private registerSyntaxes(
-    syntaxes: (string | string[])[],
-    { set = OloIdSyntax.syntaxes }: { set?: Set<string> } = {},
+    syntaxes: OloIdSyntaxEntry[],
+    { set = this.registry }: { set?: Map<string, OloIdSyntaxDefinition> } = {},
   ): string[][] {
     if (syntaxes.filter(syntax => !!syntax).length === 0 && set.size === 0) {
-      set.add(ID_TYPE_UNDEFINED);
+      set.set(ID_TYPE_UNDEFINED, { syntax: [ID_TYPE_UNDEFINED] });
+      OloIdSyntax.revision += 1;
     } else {
       syntaxes.forEach(
         (syntax) => {
           const inputSyntax = this.normSyntax(syntax);
+          const syntaxKey = inputSyntax.join(this.getSeparator());
 
-          if (inputSyntax.length > 0) {
+          if (inputSyntax.length > 0 && (isOloIdSyntaxDefinition(syntax) || !set.has(syntaxKey))) {
             set.delete(ID_TYPE_UNDEFINED);
-            set.add(inputSyntax.join(OloIdSyntax.separator));
+            set.set(
+              syntaxKey,
+              isOloIdSyntaxDefinition(syntax) ? { ...syntax, syntax: inputSyntax } : { syntax: inputSyntax },
+            );
+            OloIdSyntax.revision += 1;
           }
         }
       );
@@ -232,12 +618,12 @@ export class OloIdSyntax<Separator extends string = IdSeparator> {
    * Sets or retrieves the registered syntaxes.
    *
    * - If an array of `syntaxes` is provided, this method registers them using `registerSyntaxes`,
-   *   effectively updating the global registry with the provided definitions. Note that this adds
+   *   effectively updating the registry of this instance with the provided definitions. Note that this adds
    *   to the existing registry rather than completely replacing it unless the registry was empty.
    * - If `syntaxes` is `undefined` or omitted, this method acts like `getSyntaxes()` without arguments,
    *   returning the matrix representation of all currently registered syntaxes.
    *
-   * @param syntaxes - Optional. An array of syntax definitions (strings or string arrays) to register.
+   * @param syntaxes - Optional. An array of syntax definitions (strings, string arrays or `OloIdSyntaxDefinition`s) to register.
    *
    * @returns The current syntax matrix (array of string arrays) after the operation. If syntaxes were
    *   provided, it reflects the state after registration. If no syntaxes were provided, it reflects
@@ -247,13 +633,13 @@ export class OloIdSyntax<Separator extends string = IdSeparator> {
    * const syntaxManager = new OloIdSyntax();
    *
    * // Set new syntaxes (adds to or updates the registry)
-   * syntaxManager.setSyntaxes(['type/id', ['category', 'code']]);
+   * syntaxManager.setSyntaxes(['type/id', ['category', 'code'], { syntax: ['username', 'domain'], separator: '@' }]);
    *
    * // Get all currently registered syntaxes
    * const allSyntaxes = syntaxManager.setSyntaxes();
    * console.log(allSyntaxes); // Output: [['type', 'id'], ['category', 'code']] (or including others if pre-existing)
    */
-  public setSyntaxes(syntaxes?: (string | string[])[]): string[][] {
+  public setSyntaxes(syntaxes?: OloIdSyntaxEntry[]): string[][] {
     if (syntaxes) {
       return this.registerSyntaxes(syntaxes);
     }
@@ -281,8 +667,8 @@ export class OloIdSyntax<Separator extends string = IdSeparator> {
    *   Can be a separator-joined string, an array of strings, or an OloUri object (whose keys are used).
    *   If omitted, all registered syntaxes are returned.
    * @param options - Optional configuration.
-   * @param options.register - If `true`, the normalized `syntax` will be added to the global registry
-   *   if an exact match is not found. Defaults to `false`.
+   * @param options.register - If `true`, the normalized `syntax` will be added to the registry of this
+   *   instance if an exact match is not found. Defaults to `false`.
    *
    * @returns An array of arrays, where each inner array represents a syntax (ordered property names).
    *   Typically contains zero or one element unless no `syntax` was provided (returns all).
@@ -331,4 +717,224 @@ export class OloIdSyntax<Separator extends string = IdSeparator> {
 
     return resultSyntaxes as string[][];
   }
+  /**
+   * Retrieves the registered definition of a syntax, including its separator, prefix and suffix.
+   *
+   * Unlike `getSyntaxes`, the lookup requires an exact match of the (ordered) property names.
+   * Definitions inherited from a parent registry are included.
+   *
+   * @param syntax - The syntax to look up. Can be a separator-joined string, an array of strings,
+   *   an `OloIdSyntaxDefinition` or an OloUri object (whose sorted keys are used).
+   *
+   * @returns The registered definition, with the separator of the registry filled in if the syntax doesn't
+   *   define its own and empty strings for a missing prefix or suffix, or `undefined` if the syntax isn't registered.
+   *   Levels of hierarchical syntaxes (see {@link OloIdSyntaxDefinition.hierarchical}) resolve to the definition
+   *   of their hierarchy, restricted to the properties of the level.
+   *
+   * @example
+   * const syntaxManager = new OloIdSyntax([{ syntax: ['username', 'domain'], separator: '@' }, 'type/id'], { scoped: true });
+   *
+   * console.log(syntaxManager.getDefinition(['username', 'domain']));
+   * // Output: { syntax: ['username', 'domain'], separator: '@', prefix: '', suffix: '' }
+   * console.log(syntaxManager.getDefinition('type/id'));
+   * // Output: { syntax: ['type', 'id'], separator: '/', prefix: '', suffix: '' }
+   * console.log(syntaxManager.getDefinition(['id', 'type'])); // Output: undefined
+   */
+  public getDefinition(syntax: OloIdSyntaxEntry | OloUri): OloIdSyntaxDefinition & Required<Pick<OloIdSyntaxDefinition, 'separator' | 'prefix' | 'suffix'>> | undefined {
+    const inputSyntax = this.normSyntax(syntax);
+    const definition = this.registry.get(inputSyntax.join(this.getSeparator()));
+
+    if (!definition) {
+      return this.parent?.getDefinition(inputSyntax) ?? this.getLevelDefinition(inputSyntax);
+    }
+
+    return {
+      ...definition,
+      separator: definition.separator ?? this.getSeparator(),
+      prefix: definition.prefix ?? '',
+      suffix: definition.suffix ?? '',
+    };
+  }
+
+  /**
+   * Creates the definition of a level of a hierarchical syntax from the definition of the hierarchy.
+   *
+   * @param syntax - The property names of the level.
+   *
+   * @returns The definition of the first hierarchy the syntax is a level of, restricted to the properties of the level,
+   *   or `undefined` if the syntax isn't a level of a hierarchy.
+   *
+   * @private
+   */
+  private getLevelDefinition(syntax: string[]): ReturnType<OloIdSyntax['getDefinition']> {
+    const hierarchy = syntax.length > 0 ? this.getHierarchies(syntax)[0] : undefined;
+    const definition = hierarchy && this.getDefinition(hierarchy);
+
+    if (!definition) {
+      return undefined;
+    }
+
+    return {
+      ...definition,
+      syntax,
+      ...(definition.properties && {
+        properties: Object.fromEntries(Object.entries(definition.properties).filter(([property]) => syntax.includes(property))),
+      }),
+    };
+  }
+
+  /**
+   * Retrieves the hierarchical syntaxes (see {@link OloIdSyntaxDefinition.hierarchical}) a syntax is a level of,
+   * i.e. the ones starting with the properties of the syntax in the same order.
+   *
+   * @param syntax - The syntax to look up. Can be a separator-joined string, an array of strings,
+   *   an `OloIdSyntaxDefinition` or an OloUri object (whose sorted keys are used).
+   *
+   * @returns The property names of the matching hierarchies in registration order, including the syntax itself if it
+   *   is a registered hierarchy. Empty if the syntax isn't part of a hierarchy.
+   *
+   * @example
+   * const syntaxManager = new OloIdSyntax([{ syntax: ['org', 'project', 'item'], hierarchical: true }], { scoped: true });
+   *
+   * console.log(syntaxManager.getHierarchies(['org', 'project'])); // Output: [['org', 'project', 'item']]
+   * console.log(syntaxManager.getHierarchies(['project'])); // Output: []
+   */
+  public getHierarchies(syntax: OloIdSyntaxEntry | OloUri): string[][] {
+    const inputSyntax = this.normSyntax(syntax);
+
+    if (this.hierarchyCache?.revision !== OloIdSyntax.revision) {
+      this.hierarchyCache = {
+        revision: OloIdSyntax.revision,
+        definitions: this.getDefinitions().filter(definition => definition.hierarchical),
+      };
+    }
+
+    return this.hierarchyCache.definitions
+      .filter(definition => definition.syntax.length >= inputSyntax.length
+        && inputSyntax.every((property, index) => definition.syntax[index] === property))
+      .map(definition => [...definition.syntax]);
+  }
+
+  /**
+   * Retrieves the definitions of all registered syntaxes, including the ones inherited from a parent registry.
+   *
+   * @returns The registered definitions in registration order (parent definitions first), filled in like in `getDefinition`.
+   *   The `ID_TYPE_UNDEFINED` placeholder is not included.
+   *
+   * @example
+   * const syntaxManager = new OloIdSyntax(['type/id', { syntax: ['username', 'domain'], separator: '@' }], { scoped: true });
+   *
+   * console.log(syntaxManager.getDefinitions().map(definition => definition.separator)); // Output: ['/', '@']
+   */
+  public getDefinitions(): (OloIdSyntaxDefinition & Required<Pick<OloIdSyntaxDefinition, 'separator' | 'prefix' | 'suffix'>>)[] {
+    return this.getSyntaxMatrix()
+      .filter(syntax => syntax.join(this.getSeparator()) !== ID_TYPE_UNDEFINED)
+      .map(syntax => this.getDefinition(syntax))
+      .filter(definition => !!definition);
+  }
+
+  /**
+   * Normalizes the values of an identifier with the normalizers declared for its syntax.
+   *
+   * Only properties declaring `normalize` in the `properties` of the registered {@link OloIdSyntaxDefinition}
+   * are normalized. Missing values are kept as they are.
+   *
+   * @param uri - The values of the identifier to normalize.
+   * @param syntax - The syntax whose declarations are used. Can be a separator-joined string,
+   *   an array of strings or an `OloIdSyntaxDefinition`.
+   *
+   * @returns A copy of `uri` holding the normalized values.
+   *
+   * @example
+   * const syntaxManager = new OloIdSyntax([{ syntax: ['username', 'domain'], properties: { domain: { normalize: ['trim', 'lowercase'] } } }], { scoped: true });
+   *
+   * console.log(syntaxManager.normalize({ username: 'Albert', domain: ' Oloteo.com' }, ['username', 'domain']));
+   * // Output: { username: 'Albert', domain: 'oloteo.com' }
+   */
+  public normalize<Uri extends Partial<OloUri>>(uri: Uri, syntax: OloIdSyntaxEntry): Uri {
+    const properties = this.getDefinition(syntax)?.properties ?? {};
+
+    return Object.entries(properties).reduce(
+      (normalized, [property, propertyType]) => {
+        if (typeof propertyType !== 'string' && propertyType.normalize !== undefined && property in normalized) {
+          normalized[property as keyof Uri] = normalizeProperty(normalized[property], propertyType.normalize) as Uri[keyof Uri];
+        }
+        return normalized;
+      },
+      { ...uri },
+    );
+  }
+
+  /**
+   * Fills in the missing values of an identifier with the generators declared for its syntax.
+   *
+   * Only properties declaring `generate` in the `properties` of the registered {@link OloIdSyntaxDefinition}
+   * are generated. Existing values are kept as they are.
+   *
+   * @param uri - The values of the identifier known so far. Can hold further values used by generators (e.g. a `label` for slugs).
+   * @param syntax - The syntax whose declarations are used. Can be a separator-joined string,
+   *   an array of strings or an `OloIdSyntaxDefinition`.
+   *
+   * @returns A copy of `uri` holding the generated values.
+   *
+   * @example
+   * const syntaxManager = new OloIdSyntax([{ syntax: ['type', 'id'], properties: { id: { type: 'uuid', generate: 'uuid' } } }], { scoped: true });
+   *
+   * console.log(syntaxManager.generate({ type: 'article' }, ['type', 'id']));
+   * // Output: { type: 'article', id: '3b241101-e2bb-4255-8caf-4136c566a962' }
+   */
+  public generate<Uri extends { [property: string]: unknown }>(uri: Uri, syntax: OloIdSyntaxEntry): Uri {
+    const properties = this.getDefinition(syntax)?.properties ?? {};
+
+    return Object.entries(properties).reduce(
+      (generated, [property, propertyType]) => {
+        if (typeof propertyType !== 'string' && isMissingValue(generated[property])) {
+          const value = generateProperty(propertyType, generated);
+          if (value !== undefined) {
+            generated[property as keyof Uri] = value as Uri[keyof Uri];
+          }
+        }
+        return generated;
+      },
+      { ...uri },
+    );
+  }
+
+  /**
+   * Validates the values of an identifier against the property types declared for its syntax.
+   *
+   * Only properties declared in the `properties` of the registered {@link OloIdSyntaxDefinition} are validated.
+   * If the syntax isn't registered or doesn't declare any properties, no issues are reported.
+   *
+   * @param uri - The values of the identifier to validate.
+   * @param syntax - The syntax whose declarations are used. Can be a separator-joined string,
+   *   an array of strings or an `OloIdSyntaxDefinition`.
+   * @param options - Optional configuration.
+   * @param options.partial - If `true`, missing values are not reported, only malformed ones. Defaults to `false`.
+   *
+   * @returns A list of all issues found, empty if the identifier is valid.
+   *
+   * @example
+   * const syntaxManager = new OloIdSyntax([{ syntax: ['type', 'id'], properties: { type: { enum: ['article'] }, id: 'uuid' } }], { scoped: true });
+   *
+   * console.log(syntaxManager.validate({ type: 'video', id: 'abc' }, ['type', 'id']).map(issue => issue.code));
+   * // Output: ['INVALID_ENUM', 'INVALID_TYPE']
+   * console.log(syntaxManager.validate({ type: 'article' }, ['type', 'id'], { partial: true })); // Output: []
+   */
+  public validate(
+    uri: Partial<OloUri>,
+    syntax: OloIdSyntaxEntry,
+    { partial = false }: { partial?: boolean } = {},
+  ): OloIdIssue[] {
+    const properties = this.getDefinition(syntax)?.properties ?? {};
+
+    return Object.entries(properties).flatMap(
+      ([property, propertyType]) => validateProperty(
+        property,
+        uri[property],
+        typeof propertyType === 'string' ? { type: propertyType } : propertyType,
+        partial,
+      )
+    );
+  }
 }
@@ -0,0 +1,68 @@
+import { Buffer } from 'node:buffer';
+
+import { OloIdIssueCode, OloIdTokenEntries, isOloIdTokenEntries, isOloIdTokenEntriesList } from '../types/index.ts';
+
+import { OloIdError } from './olo-id-error.ts';
+
+/**
+ * Encodes the canonical form of one or more OloIds into an opaque, URL-safe token
+ * (base64url encoded JSON without padding).
+ *
+ * Lists of OloIds are sorted before encoding, so the token doesn't depend on the order
+ * in which syntaxes were registered.
+ *
+ * @param payload - The entries of a single OloId or a list of entries of multiple OloIds (e.g. of an OloIdSet).
+ *
+ * @returns The token.
+ *
+ * @example
+ * const token = encodeOloIdToken([['type', 'article'], ['id', 123]]);
+ * console.log(token); // Output: "W1sidHlwZSIsImFydGljbGUiXSxbImlkIiwxMjNdXQ"
+ */
+export const encodeOloIdToken = (payload: OloIdTokenEntries | OloIdTokenEntries[]): string => {
+  const canonicalPayload = isOloIdTokenEntries(payload)
+    ? payload
+    : payload
+      .map(entries => JSON.stringify(entries))
+      .sort()
+      .map(entries => JSON.parse(entries) as OloIdTokenEntries);
+
+  return Buffer.from(JSON.stringify(canonicalPayload), 'utf8').toString('base64url');
+};
+
+/**
+ * Decodes a token created by {@link encodeOloIdToken}.
+ *
+ * @param token - The token to decode.
+ *
+ * @returns A list holding the entries of every OloId encoded in the token.
+ *
+ * @throws {OloIdError} If the token is malformed.
+ *
+ * @example
+ * const [entries] = decodeOloIdToken('W1sidHlwZSIsImFydGljbGUiXSxbImlkIiwxMjNdXQ');
+ * console.log(entries); // Output: [['type', 'article'], ['id', 123]]
+ */
+export const decodeOloIdToken = (token: string): OloIdTokenEntries[] => {
+  const invalidToken = new OloIdError([{ code: OloIdIssueCode.invalidFormat, value: token, message: `"${token}" is not a valid OloId token.` }]);
+
+  if (!/^[A-Za-z0-9_-]+$/.test(token)) {
+    throw invalidToken;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw invalidToken;
+  }
+
+  if (isOloIdTokenEntries(payload)) {
+    return [payload];
+  }
+  if (isOloIdTokenEntriesList(payload) && payload.length > 0) {
+    return payload;
+  }
+
+  throw invalidToken;
+};
@@ -1,5 +1,9 @@
-import { ID_PROP_UNDEFINED, OloUri } from '../types/index.ts';
+import { ID_PROP_UNDEFINED, OloIdIssueCode, OloUri } from '../types/index.ts';
 import { OloId, isOloId, isOloIdList } from './olo-id.ts';
+import { OloIdError, isOloIdError } from './olo-id-error.ts';
+
+import { sha256 } from './olo-id-hash.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
 
 describe('OloId', () => {
   it('should create an OloId from a string', () => {
@@ -92,9 +96,500 @@ describe('OloId', () => {
     expect(id.toSyntaxString()).toBe('type1');
     expect(id.toJSON()).toEqual({ type1: ID_PROP_UNDEFINED });
   });
-});
 
+  it('should use the registry passed in the options', () => {
+    const registry = new OloIdSyntax([['type1', 'type2']], { scoped: true, seperator: '-' });
+    const id = new OloId({ type1: 'value1', type2: 'value2', type3: 'value3' }, { registry });
+    expect(id.toString()).toBe('value1-value2');
+    expect(id.toJSON()).toEqual({ type1: 'value1', type2: 'value2' });
+
+    new OloId({ type4: 'value4' }, { registry, register: true });
+    expect(registry.getSyntaxes()).toEqual([['type1', 'type2'], ['type4']]);
+    expect(new OloIdSyntax().getSyntaxes()).not.toContainEqual(['type4']);
+  });
+
+  it('should keep the registry when copying an OloId', () => {
+    const registry = new OloIdSyntax(['type1-type2'], { scoped: true, seperator: '-' });
+    const id = new OloId(new OloId('value1-value2', { registry }));
+    expect(id.toString()).toBe('value1-value2');
+    expect(id['oloIdSyntax']).toBe(registry);
+  });
+
+  it('should use the separator registered for the syntax', () => {
+    const registry = new OloIdSyntax([{ syntax: ['username', 'domain'], separator: '@' }, ['type1', 'type2']], { scoped: true });
+    const id1 = new OloId('value1@value2', { syntax: ['username', 'domain'], registry });
+    const id2 = new OloId({ type1: 'value1', type2: 'value2' }, { registry });
+
+    expect(id1.toJSON()).toEqual({ username: 'value1', domain: 'value2' });
+    expect(id1.toString()).toBe('value1@value2');
+    expect(id1.isSame('value1@value2')).toBe(true);
+    expect(id2.toString()).toBe('value1/value2');
+  });
+
+  it('should prefer the separator option over the registered separator', () => {
+    const registry = new OloIdSyntax([{ syntax: ['username', 'domain'], separator: '@' }], { scoped: true });
+    const id = new OloId('value1-value2', { syntax: ['username', 'domain'], separator: '-', registry });
+
+    expect(id.toJSON()).toEqual({ username: 'value1', domain: 'value2' });
+    expect(id.toString()).toBe('value1-value2');
+  });
+
+  it('should render and parse the registered prefix and suffix', () => {
+    const registry = new OloIdSyntax([{ syntax: ['type1', 'type2'], separator: ':', prefix: '<', suffix: '>' }], { scoped: true });
+    const id1 = new OloId('<value1:value2>', { registry });
+    const id2 = new OloId({ type1: 'value1', type2: 'value2' }, { registry });
+
+    expect(id1.toJSON()).toEqual({ type1: 'value1', type2: 'value2' });
+    expect(id2.toString()).toBe('<value1:value2>');
+    expect(id2.toString('-')).toBe('<value1-value2>');
+    expect(id2.isSame('<value1:value2>')).toBe(true);
+    expect(id2.isSame('value1:value2')).toBe(true);
+    expect(new OloId('value1:value2', { registry }).toJSON()).toEqual({ type1: 'value1', type2: 'value2' });
+  });
+
+  describe('typed syntaxes', () => {
+    const uuid = '3f2504e0-4f89-41d3-9a0c-0305e82c3301';
+    const registry = new OloIdSyntax([{ syntax: ['type', 'id'], properties: { type: { enum: ['article'] }, id: 'uuid' } }], { scoped: true });
+
+    it('should create an OloId with valid values', () => {
+      expect(new OloId(`article/${uuid}`, { syntax: ['type', 'id'], registry }).toJSON()).toEqual({ type: 'article', id: uuid });
+      expect(new OloId({ type: 'article', id: uuid }, { registry }).toString()).toBe(`article/${uuid}`);
+    });
+
+    it('should throw an OloIdError instead of storing undefined values', () => {
+      expect(() => new OloId('article', { syntax: ['type', 'id'], registry })).toThrow(OloIdError);
+
+      try {
+        new OloId('video/abc', { syntax: ['type', 'id'], registry });
+      } catch (error) {
+        expect(isOloIdError(error)).toBe(true);
+        expect((error as OloIdError).issues.map(issue => [issue.code, issue.property])).toEqual([
+          [OloIdIssueCode.invalidEnum, 'type'],
+          [OloIdIssueCode.invalidType, 'id'],
+        ]);
+      }
+    });
+
+    it('should throw an OloIdError when compared to malformed values', () => {
+      const id = new OloId({ type: 'article', id: uuid }, { registry });
+
+      expect(id.isSame(`article/${uuid}`)).toBe(true);
+      expect(id.isSame({ type: 'article', id: '3f2504e0-4f89-41d3-9a0c-0305e82c3302' })).toBe(false);
+      expect(id.isSame('article')).toBe(false);
+      expect(() => id.isSame('article/abc')).toThrow(OloIdError);
+    });
+  });
+
+  describe('strict parsing', () => {
+    const registry = new OloIdSyntax([['type', 'id'], { syntax: ['username', 'domain'], separator: '@', properties: { username: 'emailLocalPart' } }], { scoped: true });
+
+    it('should parse a matching string', () => {
+      const id = OloId.parse('article/123', { syntax: ['type', 'id'], registry });
+      expect(id.toJSON()).toEqual({ type: 'article', id: '123' });
+      expect(new OloId('article/123', { syntax: ['type', 'id'], registry, strict: true }).toJSON()).toEqual({ type: 'article', id: '123' });
+    });
+
+    it('should report missing segments', () => {
+      expect(OloId.tryParse('article', { syntax: ['type', 'id'], registry })).toEqual({
+        success: false,
+        issues: [{ code: OloIdIssueCode.missingSegment, property: 'id', message: 'Segment for property "id" is missing.' }],
+      });
+      expect(() => new OloId('article', { syntax: ['type', 'id'], registry, strict: true })).toThrow(OloIdError);
+    });
+
+    it('should report surplus segments', () => {
+      expect(OloId.tryParse('article/123/456/789', { syntax: ['type', 'id'], registry })).toEqual({
+        success: false,
+        issues: [{ code: OloIdIssueCode.surplusSegment, value: ['456', '789'], message: 'Found 2 surplus segment(s): 456, 789.' }],
+      });
+      expect(() => OloId.parse('article/123/456', { syntax: ['type', 'id'], registry })).toThrow(OloIdError);
+    });
+
+    it('should report empty values', () => {
+      expect(OloId.tryParse('/123', { syntax: ['type', 'id'], registry }).issues).toEqual([
+        { code: OloIdIssueCode.emptyValue, property: 'type', value: '', message: 'Property "type" has an empty value.' },
+      ]);
+      expect(OloId.tryParse({ type: 'article', id: undefined as unknown as string }, { registry }).issues.map(issue => issue.code)).toEqual([
+        OloIdIssueCode.missingValue,
+      ]);
+    });
+
+    it('should report unknown syntaxes', () => {
+      expect(OloId.tryParse('value1/value2', { syntax: ['type1', 'type2'], registry }).issues).toEqual([
+        { code: OloIdIssueCode.unknownSyntax, message: 'Syntax "type1/type2" is not registered.' },
+      ]);
+      expect(OloId.tryParse('value1', { registry: new OloIdSyntax([], { scoped: true }) }).issues.map(issue => issue.code)).toEqual([
+        OloIdIssueCode.unknownSyntax,
+      ]);
+      expect(OloId.tryParse('value1/value2', { syntax: ['type1', 'type2'], registry, register: true }).success).toBe(true);
+    });
+
+    it('should report all issues at once', () => {
+      const result = OloId.tryParse('albert..einstein@', { syntax: ['username', 'domain'], registry });
+      expect(result.success).toBe(false);
+      expect(result.issues.map(issue => [issue.code, issue.property])).toEqual([
+        [OloIdIssueCode.emptyValue, 'domain'],
+        [OloIdIssueCode.invalidType, 'username'],
+      ]);
+    });
+
+    it('should return the parsed id on success', () => {
+      const result = OloId.tryParse('albert.einstein@oloteo.com', { syntax: ['username', 'domain'], registry });
+      expect(result.success).toBe(true);
+      expect(result.issues).toEqual([]);
+      expect(result.id?.toJSON()).toEqual({ username: 'albert.einstein', domain: 'oloteo.com' });
+    });
+  });
+
+  describe('escaping', () => {
+    const registry = new OloIdSyntax([['type', 'id'], { syntax: ['username', 'domain'], separator: '@', prefix: '<', suffix: '>' }], { scoped: true });
+
+    it('should escape separator characters and percent signs in toString', () => {
+      expect(new OloId({ type: 'article', id: 'a/b' }, { registry }).toString()).toBe('article/a%2Fb');
+      expect(new OloId({ type: 'article', id: '100%' }, { registry }).toString()).toBe('article/100%25');
+      expect(new OloId({ type: 'article', id: 'a-b' }, { registry }).toString('-')).toBe('article-a%2Db');
+      expect(new OloId({ username: '"a@b"', domain: 'oloteo.com' }, { registry }).toString()).toBe('<"a%40b"@oloteo.com>');
+    });
+
+    it('should unescape values when parsing strings', () => {
+      expect(new OloId('article/a%2Fb', { syntax: ['type', 'id'], registry }).toJSON()).toEqual({ type: 'article', id: 'a/b' });
+      expect(new OloId('<"a%40b"@oloteo.com>', { syntax: ['username', 'domain'], registry }).toJSON()).toEqual({ username: '"a@b"', domain: 'oloteo.com' });
+      expect(new OloId({ type: 'article', id: 'a/b' }, { registry }).isSame('article/a%2Fb')).toBe(true);
+    });
+
+    it('should keep malformed escape sequences', () => {
+      expect(new OloId('article/50%off', { syntax: ['type', 'id'], registry }).toJSON()).toEqual({ type: 'article', id: '50%off' });
+      expect(new OloId('article/%E0%A4', { syntax: ['type', 'id'], registry }).toJSON()).toEqual({ type: 'article', id: '%E0%A4' });
+    });
+
+    it('should round trip every OloUri through its string representation', () => {
+      const syntaxes = [['type', 'id'], ['username', 'domain'], ['a', 'b', 'c']];
+      const separators = ['/', '@', '::', '-', ' '];
+      const alphabet = ['a', 'Z', '0', '/', '@', ':', '-', ' ', '%', '%2F', '<', '>', '\\', 'ä', '💡', 'UNDEFINED'];
+
+      // deterministic pseudo random numbers, so failures can be reproduced
+      let seed = 42;
+      const random = (max: number) => {
+        seed = (seed * 16807) % 2147483647;
+        return seed % max;
+      };
+      const randomValue = () => Array.from({ length: 1 + random(6) }, () => alphabet[random(alphabet.length)]).join('');
+
+      for (let run = 0; run < 500; run++) {
+        const syntax = syntaxes[random(syntaxes.length)] as string[];
+        const separator = separators[random(separators.length)] as string;
+        const runRegistry = new OloIdSyntax([{ syntax, separator, prefix: random(2) ? '<' : '', suffix: random(2) ? '>' : '' }], { scoped: true });
+        const uri = Object.fromEntries(syntax.map(property => [property, randomValue()])) as OloUri;
+
+        const id = new OloId(uri, { registry: runRegistry });
+        const parsed = OloId.parse(id.toString(), { syntax, registry: runRegistry });
+
+        expect(parsed.toJSON(), `${JSON.stringify(uri)} as ${id.toString()}`).toEqual(uri);
+        expect(id.isSame(id.toString())).toBe(true);
+      }
+    });
+  });
+
+  describe('external formats', () => {
+    const registry = new OloIdSyntax([
+      ['type', 'id'],
+      { syntax: ['username', 'domain'], urn: { namespace: 'user', order: ['domain', 'username'] } },
+    ], { scoped: true });
+
+    it('should render URNs', () => {
+      expect(new OloId({ type: 'article', id: 'a:b' }, { registry }).toUrn()).toBe('urn:olo:article:a%3Ab');
+      expect(new OloId({ username: 'albert', domain: 'oloteo.com' }, { registry }).toUrn()).toBe('urn:user:oloteo.com:albert');
+    });
+
+    it('should parse URNs', () => {
+      expect(OloId.fromUrn('urn:olo:article:a%3Ab', { registry }).toJSON()).toEqual({ type: 'article', id: 'a:b' });
+      expect(OloId.fromUrn('URN:User:oloteo.com:albert', { registry }).toJSON()).toEqual({ username: 'albert', domain: 'oloteo.com' });
+      expect(OloId.fromUrn('urn:olo:article:123', { syntax: ['type', 'id'], registry }).toJSON()).toEqual({ type: 'article', id: '123' });
+    });
 
+    it('should reject malformed URNs', () => {
+      const issues = (urn: string, syntax?: string[]) => {
+        try {
+          OloId.fromUrn(urn, { syntax, registry });
+        } catch (error) {
+          return isOloIdError(error) ? error.issues.map(issue => issue.code) : [];
+        }
+        return [];
+      };
 
+      expect(issues('article:123')).toEqual([OloIdIssueCode.invalidFormat]);
+      expect(issues('urn:olo')).toEqual([OloIdIssueCode.invalidFormat]);
+      expect(issues('urn:unknown:article:123')).toEqual([OloIdIssueCode.unknownSyntax]);
+      expect(issues('urn:user:oloteo.com:albert', ['type', 'id'])).toEqual([OloIdIssueCode.invalidFormat]);
+      expect(issues('urn:olo:article:123:456', ['type', 'id'])).toEqual([OloIdIssueCode.invalidFormat]);
+    });
 
+    it('should render and parse URL paths', () => {
+      const id = new OloId({ type: 'article', id: 'a/b c' }, { registry });
+      expect(id.toUrlPath()).toBe('article/a%2Fb%20c');
+      expect(OloId.fromUrlPath(`/${id.toUrlPath()}/`, { syntax: ['type', 'id'], registry }).isSame(id)).toBe(true);
+      expect(OloId.fromUrlPath('oloteo.com/albert', { syntax: ['username', 'domain'], registry }).toJSON()).toEqual({ username: 'albert', domain: 'oloteo.com' });
+      expect(() => OloId.fromUrlPath('article', { syntax: ['type', 'id'], registry })).toThrow(OloIdError);
+    });
 
+    it('should render and parse query strings', () => {
+      const id = new OloId({ type: 'article', id: 'a&b=c' }, { registry });
+      expect(id.toQueryString()).toBe('type=article&id=a%26b%3Dc');
+      expect(OloId.fromQueryString(`?${id.toQueryString()}&page=2`, { registry }).toJSON()).toEqual({ type: 'article', id: 'a&b=c' });
+      expect(OloId.fromQueryString(new URLSearchParams({ id: '1', type: 'video' }), { syntax: ['type', 'id'], registry }).toString()).toBe('video/1');
+    });
+  });
+
+  describe('tokens', () => {
+    const registry = new OloIdSyntax([['type', 'id']], { scoped: true });
+
+    it('should encode an OloId into a URL-safe token and decode it', () => {
+      const id = new OloId({ type: 'article', id: 123 }, { registry });
+      const token = id.toToken();
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(OloId.fromToken(token, { registry }).toJSON()).toEqual({ type: 'article', id: 123 });
+      expect(OloId.fromToken(token, { registry }).isSame(id)).toBe(true);
+      expect(new OloId({ type: 'article', id: '123' }, { registry }).toToken()).not.toBe(token);
+    });
+
+    it('should keep the syntax of unregistered OloIds', () => {
+      const id = new OloId('value1/value2/täst', { syntax: ['b', 'a', 'c'], registry });
+      expect(OloId.fromToken(id.toToken(), { registry }).toSyntaxString()).toBe('b/a/c');
+      expect(OloId.fromToken(id.toToken(), { registry }).toString()).toBe('value1/value2/täst');
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(() => OloId.fromToken('not a token')).toThrow(OloIdError);
+      expect(() => OloId.fromToken(Buffer.from('{"type":"article"}').toString('base64url'))).toThrow(OloIdError);
+      expect(() => OloId.fromToken(Buffer.from('[[["id",1]],[["id",2]]]').toString('base64url'))).toThrow(OloIdError);
+    });
+  });
+
+  describe('canonical form', () => {
+    const registry = new OloIdSyntax([['type', 'id']], { scoped: true });
+
+    it('should canonicalize independent of property order and value types', () => {
+      const id1 = new OloId({ type: 'article', id: 1 }, { registry });
+      const id2 = new OloId({ id: '1', type: 'article' }, { syntax: ['id', 'type'], registry: new OloIdSyntax([], { scoped: true }) });
+
+      expect(id1.canonicalize()).toBe('id=1&type=article');
+      expect(id2.canonicalize()).toBe(id1.canonicalize());
+      expect(new OloId({ type: 'article', id: 'a&b=c' }, { registry }).canonicalize()).toBe('id=a%26b%3Dc&type=article');
+      expect(new OloId({ type: 'article', id: 2 }, { registry }).canonicalize()).not.toBe(id1.canonicalize());
+    });
+
+    it('should hash the canonical form', () => {
+      const id1 = new OloId({ type: 'article', id: 1 }, { registry });
+      const id2 = new OloId('article/1', { syntax: ['type', 'id'], registry });
+
+      expect(id1.hash()).toMatch(/^[0-9a-f]{64}$/);
+      expect(id2.hash()).toBe(id1.hash());
+      expect(id1.hash()).toBe(sha256(id1.canonicalize()));
+      expect(new Map([[id1.hash(), 'cached']]).get(id2.hash())).toBe('cached');
+    });
+
+    it('should consider ids with the same canonical form the same', () => {
+      const id1 = new OloId({ type: 'article', id: 1 }, { registry });
+      const id2 = new OloId({ type: 'article', id: '1' }, { registry });
+
+      expect(id1.isSame(id2)).toBe(true);
+      expect(id2.isSame(id1)).toBe(true);
+      expect(id1.isSame({ type: 'article', id: '1' })).toBe(true);
+      expect(id1.isSame('article/1')).toBe(true);
+      expect(id1.isSame({ type: 'article', id: 2 })).toBe(false);
+    });
+  });
+
+  describe('normalization', () => {
+    const registry = new OloIdSyntax([{
+      syntax: ['username', 'domain'],
+      separator: '@',
+      properties: { username: { normalize: 'trim' }, domain: { type: 'string', normalize: ['trim', 'lowercase'] } },
+    }, {
+      syntax: ['type', 'id'],
+      properties: { id: { type: 'integer', normalize: ['trim', 'number'] } },
+    }], { scoped: true });
+
+    it('should normalize values when creating OloIds', () => {
+      expect(new OloId('albert@Oloteo.com ', { syntax: ['username', 'domain'], registry }).toJSON()).toEqual({ username: 'albert', domain: 'oloteo.com' });
+      expect(new OloId({ type: 'article', id: ' 42' }, { registry }).toJSON()).toEqual({ type: 'article', id: 42 });
+    });
+
+    it('should normalize values when comparing OloIds', () => {
+      const user = new OloId({ username: 'albert', domain: 'oloteo.com' }, { registry });
+
+      expect(user.isSame('albert@Oloteo.com')).toBe(true);
+      expect(user.isSame({ username: ' albert', domain: 'OLOTEO.COM' })).toBe(true);
+      expect(user.isSame('Albert@oloteo.com')).toBe(false);
+      expect(new OloId({ type: 'article', id: 42 }, { registry }).isSame('article/ 42')).toBe(true);
+    });
+  });
+
+  describe('matching', () => {
+    const registry = new OloIdSyntax([
+      ['type', 'id'],
+      { syntax: ['username', 'domain'], separator: '@', properties: { domain: { normalize: 'lowercase' } } },
+      { syntax: ['id'], prefix: 'user:' },
+    ], { scoped: true });
+    const article = new OloId({ type: 'article', id: 'news-123' }, { syntax: ['type', 'id'], registry });
+
+    it('should match string patterns with wildcards and prefixes', () => {
+      expect(article.matches('article/*')).toEqual({ matched: true, syntax: ['type', 'id'], captures: { id: 'news-123' } });
+      expect(article.matches('article').captures).toEqual({ id: 'news-123' });
+      expect(article.matches('*/news-*').captures).toEqual({ type: 'article', id: 'news-123' });
+      expect(article.matches('article/news-123').captures).toEqual({});
+      expect(article.matches('video/*').matched).toBe(false);
+      expect(article.matches('article/news-123/1').matched).toBe(false);
+      expect(new OloId({ id: 7 }, { syntax: ['id'], registry }).matches('user:*').captures).toEqual({ id: 7 });
+    });
+
+    it('should match object patterns', () => {
+      expect(article.matches({ type: 'article' }).captures).toEqual({ id: 'news-123' });
+      expect(article.matches({ id: '*-123' }).captures).toEqual({ type: 'article', id: 'news-123' });
+      expect(article.matches({ type: 'video' }).matched).toBe(false);
+      expect(article.matches({ slug: 'news' }).matched).toBe(false);
+    });
+
+    it('should normalize literal values and escape wildcards', () => {
+      const user = new OloId('albert@oloteo.com', { syntax: ['username', 'domain'], registry });
+
+      expect(user.matches('*@Oloteo.com').captures).toEqual({ username: 'albert' });
+      expect(new OloId({ type: 'a*b', id: 1 }, { syntax: ['type', 'id'], registry }).matches('a%2Ab/*').matched).toBe(true);
+      expect(new OloId({ type: 'acb', id: 1 }, { syntax: ['type', 'id'], registry }).matches('a%2Ab/*').matched).toBe(false);
+    });
+
+    it('should not match missing values with wildcards', () => {
+      const draft = new OloId({ type: 'article' }, { syntax: ['type', 'id'], registry });
+
+      expect(draft.matches('article/*').matched).toBe(false);
+      expect(draft.matches('article').captures).toEqual({ id: ID_PROP_UNDEFINED });
+    });
+  });
+
+  describe('hierarchies', () => {
+    const registry = new OloIdSyntax([
+      ['project'],
+      ['type', 'id'],
+      { syntax: ['org', 'project', 'item'], hierarchical: true, properties: { org: { normalize: 'lowercase' }, item: 'slug' } },
+    ], { scoped: true });
+    const item = new OloId('Oloteo/website/home', { syntax: ['org', 'project', 'item'], registry });
+    const org = new OloId('oloteo', { syntax: ['org'], registry });
+
+    it('should navigate to parents and ancestors', () => {
+      expect(item.parent()?.toJSON()).toEqual({ org: 'oloteo', project: 'website' });
+      expect(item.parent()?.toSyntaxString()).toBe('org/project');
+      expect(item.ancestors().map(id => id.toString())).toEqual(['oloteo', 'oloteo/website']);
+      expect(org.parent()).toBeUndefined();
+      expect(org.ancestors()).toEqual([]);
+      expect(new OloId('article/1', { syntax: ['type', 'id'], registry }).parent()).toBeUndefined();
+    });
+
+    it('should create children', () => {
+      expect(org.child('website').toString()).toBe('oloteo/website');
+      expect(org.child({ project: 'website', item: 'home' }).isSame(item)).toBe(true);
+      expect(org.child({ item: 'home' }).toJSON()).toEqual({ org: 'oloteo', project: ID_PROP_UNDEFINED, item: 'home' });
+      expect(() => org.child({ project: 'website', item: 'Home Page' })).toThrow(OloIdError);
+      expect(() => item.child('comments')).toThrow(TypeError);
+      expect(() => org.child({ type: 'article' })).toThrow(TypeError);
+    });
+
+    it('should check for descendants', () => {
+      expect(item.isDescendantOf({ org: 'Oloteo' })).toBe(true);
+      expect(item.isDescendantOf(org.child('website'))).toBe(true);
+      expect(item.isDescendantOf(item)).toBe(false);
+      expect(item.isDescendantOf({ org: 'oloteo', project: 'shop' })).toBe(false);
+      expect(item.isDescendantOf({ project: 'website' })).toBe(false);
+      expect(org.isDescendantOf(item)).toBe(false);
+    });
+  });
+
+  describe('generation', () => {
+    const registry = new OloIdSyntax([{
+      syntax: ['type', 'id', 'slug'],
+      properties: {
+        type: { enum: ['article', 'video'] },
+        id: { type: 'uuid', generate: 'uuidv7' },
+        slug: { type: 'slug', generate: { strategy: 'slug', from: 'title' } },
+      },
+    }, {
+      syntax: ['number'],
+      properties: { number: { type: 'integer', generate: { strategy: 'counter', start: 100 } } },
+    }, {
+      syntax: ['code'],
+      properties: { code: { generate: ({ prefix }) => `${prefix}-1` } },
+    }], { scoped: true });
+
+    it('should fill in missing values with the declared generators', () => {
+      const id = OloId.generate(['type', 'id', 'slug'], { type: 'article', title: 'Hello World' }, { registry });
+
+      expect(id.toJSON()).toEqual({ type: 'article', id: expect.stringMatching(/^[0-9a-f-]{36}$/), slug: 'hello-world' });
+      expect(OloId.generate(['type', 'id', 'slug'], { type: 'article', title: 'Hello World' }, { registry }).isSame(id)).toBe(false);
+      expect(OloId.generate(['code'], { prefix: 'A' }, { registry }).toString()).toBe('A-1');
+    });
+
+    it('should keep existing values', () => {
+      const uuid = '3b241101-e2bb-4255-8caf-4136c566a962';
+
+      expect(OloId.generate(['type', 'id', 'slug'], { type: 'video', id: uuid, slug: 'intro' }, { registry }).toString())
+        .toBe(`video/${uuid}/intro`);
+    });
+
+    it('should count monotonically', () => {
+      expect(OloId.generate(['number'], {}, { registry }).toJSON()).toEqual({ number: 100 });
+      expect(OloId.generate(['number'], {}, { registry }).toJSON()).toEqual({ number: 101 });
+    });
+
+    it('should report values that could not be generated', () => {
+      expect(() => OloId.generate(['type', 'id', 'slug'], { type: 'article' }, { registry, strict: true })).toThrow(OloIdError);
+      expect(() => OloId.generate(['type', 'id', 'slug'], { type: 'podcast', title: 'Intro' }, { registry })).toThrow(OloIdError);
+    });
+  });
+
+  describe('ordering', () => {
+    const registry = new OloIdSyntax([
+      { syntax: ['type', 'id'], properties: { id: { timestamp: 'ulid' } } },
+      { syntax: ['type', 'uuid'], properties: { uuid: { type: 'uuid', generate: 'uuidv7' } } },
+      ['type', 'slug'],
+      { syntax: ['tweet'], properties: { tweet: { type: 'integer', timestamp: { scheme: 'snowflake', epoch: 1288834974657 } } } },
+    ], { scoped: true });
+
+    it('should extract embedded timestamps', () => {
+      expect(new OloId({ type: 'article', id: '01ARYZ6S41TSV4RRFFQ69G5FAV' }, { registry }).getTimestamp())
+        .toEqual(new Date(1469918176385));
+      expect(new OloId({ type: 'article', uuid: '018cc251-f400-7a8b-9f3c-4d2e1b0a9c8d' }, { registry }).getTimestamp('uuid'))
+        .toEqual(new Date('2024-01-01T00:00:00.000Z'));
+      expect(new OloId('1541815603606036480', { syntax: ['tweet'], registry }).getTimestamp())
+        .toEqual(new Date('2022-06-28T16:07:40.105Z'));
+      expect(new OloId({ type: 'article', id: '01ARYZ6S41TSV4RRFFQ69G5FAV' }, { registry }).getTimestamp('type')).toBeUndefined();
+      expect(new OloId({ type: 'article', id: 123 }, { registry }).getTimestamp()).toBeUndefined();
+    });
+
+    it('should only extract timestamps of declared time-ordered properties', () => {
+      expect(new OloId({ type: 'article', slug: '01ARYZ6S41TSV4RRFFQ69G5FAV' }, { registry }).getTimestamp()).toBeUndefined();
+      expect(new OloId({ type: 'article', slug: '018cc251-f400-7a8b-9f3c-4d2e1b0a9c8d' }, { registry }).getTimestamp()).toBeUndefined();
+      expect(new OloId({ type: 'article', id: '018cc251-f400-7a8b-9f3c-4d2e1b0a9c8d' }, { registry }).getTimestamp()).toBeUndefined();
+    });
+
+    it('should compare OloIds in a total order', () => {
+      const ids = [
+        new OloId({ type: 'article', id: 10 }, { registry }),
+        new OloId({ type: 'article', id: 'intro' }, { registry }),
+        new OloId({ type: 'article', id: '01ARYZ6S41TSV4RRFFQ69G5FAV' }, { registry }),
+        new OloId({ type: 'article', id: 9 }, { registry }),
+        new OloId('1541815603606036480', { syntax: ['tweet'], registry }),
+        new OloId({ type: 'archive', id: 'intro' }, { registry }),
+      ];
+
+      expect([...ids].sort((a, b) => a.compare(b)).map(String)).toEqual([
+        '1541815603606036480',
+        'archive/intro',
+        'article/01ARYZ6S41TSV4RRFFQ69G5FAV',
+        'article/9',
+        'article/10',
+        'article/intro',
+      ]);
+      expect(ids[0]?.compare(new OloId({ type: 'article', id: '10' }, { registry }))).toBe(0);
+    });
+  });
+});
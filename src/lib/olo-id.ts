@@ -1,7 +1,147 @@
 import { ConcatString, GetListTypeGuard } from 'olo-platform';
-import { ID_PROP_UNDEFINED, IdSeparator, OloIdOptions, OloIdentifier, OloUri } from '../types/index.ts';
+import {
+  ID_PROP_UNDEFINED,
+  ID_TYPE_UNDEFINED,
+  ID_URN_NAMESPACE,
+  IdSeparator,
+  OloIdIssue,
+  OloIdIssueCode,
+  OloIdMatchResult,
+  OloIdOptions,
+  OloIdParseResult,
+  OloIdPattern,
+  OloIdPropertyKind,
+  OloIdPropertyType,
+  OloIdSyntaxDefinition,
+  OloIdTokenDecodeOptions,
+  OloIdTokenEntries,
+  OloIdTokenOptions,
+  OloIdentifier,
+  OloUri,
+} from '../types/index.ts';
 
+import { OloIdError, isOloIdError } from './olo-id-error.ts';
+import { getSnowflakeTime, getUlidTime, getUuidV7Time } from './olo-id-generator.ts';
+import { sha256 } from './olo-id-hash.ts';
 import { OloIdSyntax } from './olo-id-syntax.ts';
+import { decodeOloIdToken, encodeOloIdToken } from './olo-id-token.ts';
+
+/**
+ * Determines the order of the URN and URL path segments of a syntax: the properties listed in
+ * `urn.order` first, followed by the remaining properties in syntax order.
+ *
+ * @param definition - The definition of the syntax.
+ * @returns The property names in segment order.
+ */
+const getSegmentOrder = ({ syntax, urn }: OloIdSyntaxDefinition): string[] => {
+  const order = (urn?.order ?? []).filter(property => syntax.includes(property));
+  return [...order, ...syntax.filter(property => !order.includes(property))];
+};
+
+/**
+ * Percent-encodes a single character, e.g. `/` as `%2F` or `ä` as `%C3%A4`.
+ *
+ * @param char - The character to encode.
+ * @returns The percent-encoded character.
+ */
+const escapeChar = (char: string): string => {
+  const encoded = encodeURIComponent(char);
+  return encoded !== char ? encoded : `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`;
+};
+
+/**
+ * Escapes a value for its string representation by percent-encoding `%` and every character
+ * of the separator, so the value can't be mistaken for a separator when parsed back.
+ *
+ * @param value - The value to escape.
+ * @param separator - The separator used between the values.
+ * @returns The escaped string representation of the value.
+ */
+const escapeValue = (value: string | number, separator: string): string =>
+  Array.from(String(value))
+    .map(char => char === '%' || separator.includes(char) ? escapeChar(char) : char)
+    .join('');
+
+/**
+ * Reverts {@link escapeValue}. Malformed escape sequences (e.g. in strings created before values were escaped)
+ * are kept as they are.
+ *
+ * @param value - A segment of a string representation.
+ * @returns The unescaped value.
+ */
+const unescapeValue = (value: string): string =>
+  value.replace(/(?:%[0-9A-Fa-f]{2})+/g, (sequence) => {
+    try {
+      return decodeURIComponent(sequence);
+    } catch {
+      return sequence;
+    }
+  });
+
+/**
+ * The wildcard of {@link OloIdPattern}s, matching any sequence of characters.
+ */
+const WILDCARD = '*';
+
+/**
+ * Creates a regular expression matching the whole of a value against the pieces of a wildcard pattern,
+ * i.e. the literal parts of the pattern between its wildcards.
+ *
+ * @param pieces - The literal parts of the pattern, e.g. `['news-', '']` for `news-*`.
+ * @returns The regular expression.
+ */
+const getWildcardRegExp = (pieces: string[]): RegExp =>
+  new RegExp(`^${pieces.map(piece => piece.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 's');
+
+/**
+ * Extracts the timestamp embedded in a value of a time-ordered id scheme. Only values of properties declaring
+ * the scheme (see {@link OloIdPropertyType.timestamp}) are read, so e.g. random ids can't pass as timestamps.
+ *
+ * @param value - The value of a property.
+ * @param propertyType - The declaration of the property, if any.
+ * @returns The timestamp, or `undefined` if the value doesn't embed one.
+ */
+const getValueTimestamp = (value: string | number, propertyType?: OloIdPropertyType | OloIdPropertyKind): Date | undefined => {
+  const declaration = typeof propertyType === 'object' ? propertyType : {};
+  const generator = typeof declaration.generate === 'string' ? declaration.generate : undefined;
+  const timestamp = declaration.timestamp ?? (generator === 'ulid' || generator === 'uuidv7' ? generator : undefined);
+  const options = typeof timestamp === 'string' ? { scheme: timestamp } : timestamp;
+
+  switch (options?.scheme) {
+    case 'ulid':
+      return getUlidTime(String(value));
+    case 'uuidv7':
+      return getUuidV7Time(String(value));
+    case 'snowflake':
+      return getSnowflakeTime(value, options);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Compares two values of a property in a total order: values embedding a timestamp first (ordered by time),
+ * then integers (ordered numerically), then all other values (ordered by their UTF-16 code units).
+ *
+ * @param value - The first value.
+ * @param otherValue - The second value.
+ * @param propertyType - The declaration of the property, if any.
+ * @returns A negative number if `value` comes first, a positive number if `otherValue` comes first, `0` if they are equal.
+ */
+const compareValues = (value: string | number, otherValue: string | number, propertyType?: OloIdPropertyType | OloIdPropertyKind): number => {
+  const getRank = (rankedValue: string | number) => {
+    const timestamp = rankedValue === ID_PROP_UNDEFINED ? undefined : getValueTimestamp(rankedValue, propertyType);
+    return timestamp
+      ? { rank: 0, order: timestamp.getTime() }
+      : /^[+-]?\d+$/.test(String(rankedValue)) ? { rank: 1, order: Number(rankedValue) } : { rank: 2, order: 0 };
+  };
+  const a = getRank(value);
+  const b = getRank(otherValue);
+  const string = String(value);
+  const otherString = String(otherValue);
+
+  return a.rank - b.rank || a.order - b.order || (string < otherString ? -1 : string > otherString ? 1 : 0);
+};
 
 /**
  * Represents a structured identifier (OloId) within the OLO platform.
@@ -16,8 +156,8 @@ import { OloIdSyntax } from './olo-id-syntax.ts';
  * - Another `OloId` instance (copying its data).
  *
  * It provides methods for comparison, string conversion (both values and syntax),
- * and standard JSON serialization. It interacts with a central `OloIdSyntax`
- * service to manage and potentially register identifier structures globally.
+ * and standard JSON serialization. It interacts with an `OloIdSyntax` registry
+ * (the global one unless another is passed as `registry`) to manage and potentially register identifier structures.
  *
  * @template IdentifierProperties - An array of string types defining the ordered property names of the identifier (e.g., `['type', 'id']`). Defaults to `string[]`.
  * @template IdentifierValue - The type of the values associated with the identifier properties. Defaults to `string | number`.
@@ -46,11 +186,19 @@ export class OloId<
   IdentifierValue extends string | number = string | number,
   Separator extends string = IdSeparator
 > implements OloIdentifier<IdentifierProperties> {
-  private oloIdSyntax = new OloIdSyntax<Separator>();
+  private oloIdSyntax: OloIdSyntax<Separator>;
   private separator: Separator;
 
   private syntax: IdentifierProperties;
 
+  /**
+   * The definition of the syntax as registered in the used `OloIdSyntax` registry,
+   * or `undefined` if the syntax isn't registered.
+   *
+   * @private
+   */
+  private definition?: OloIdSyntaxDefinition;
+
   private uri: Record<IdentifierProperties[number], IdentifierValue> = {} as Record<IdentifierProperties[number], IdentifierValue>;
 
   /**
@@ -60,8 +208,10 @@ export class OloId<
    * - An `OloUri` object (key-value pairs).
    * - Another `OloId` instance (copy constructor pattern).
    * - A string representation, which will be parsed based on the provided or determined syntax and separator.
+   *   Percent-encoded characters in the values (as produced by `toString()`) are decoded.
    *
    * It determines the identifier's structure (syntax) and separator, and populates the internal `uri` representation.
+   * Values are normalized with the normalizers declared for the syntax (see {@link OloIdPropertyType.normalize}) before they are validated and stored.
    *
    * @constructor
    *
@@ -72,10 +222,13 @@ export class OloId<
    *   - If `uri` is a string, this is crucial for parsing. It can be a separator-joined string (e.g., "type/id") or an array (e.g., ['type', 'id']).
    *   - If `uri` is an object or OloId, `syntax` can be provided to enforce a specific known syntax.
    *   - If omitted, the constructor attempts to infer or find a matching registered syntax based on the `uri` object's keys or falls back to defaults.
-   * @param options.register - If `true`, and a syntax is derived from the input `uri` object or string that isn't already registered globally,
+   * @param options.register - If `true`, and a syntax is derived from the input `uri` object or string that isn't already registered,
    *   it will be registered for potential reuse. Defaults to `false`.
    * @param options.separator - The character(s) used to separate values if `uri` is a string, and the default separator for `toString()`/`toSyntaxString()`.
-   *   Defaults to the globally configured separator (usually '/').
+   *   Defaults to the separator registered for the syntax, or the separator of the used registry (usually '/').
+   * @param options.registry - The `OloIdSyntax` registry to use. Defaults to the registry of `uri` if it is an OloId, and to the global registry otherwise.
+   * @param options.strict - If `true`, unknown syntaxes, missing or surplus segments and missing or empty values
+   *   throw an `OloIdError` instead of being filled with `ID_PROP_UNDEFINED` or dropped. Defaults to `false`.
    *
    * @example
    * // From string with explicit syntax
@@ -96,11 +249,28 @@ export class OloId<
    * console.log(idCustomSep.toJSON()); // Output: { role: 'admin', level: 'A5' }
    * console.log(idCustomSep.toString()); // Output: "admin-A5"
    *
+   * // With a separator and prefix registered for the syntax
+   * new OloIdSyntax().setSyntaxes([{ syntax: ['username', 'domain'], separator: '@', prefix: 'mailto:' }]);
+   * const idRegistered = new OloId('mailto:albert.einstein@oloteo.com', { syntax: ['username', 'domain'] });
+   * console.log(idRegistered.toJSON()); // Output: { username: 'albert.einstein', domain: 'oloteo.com' }
+   * console.log(idRegistered.toString()); // Output: "mailto:albert.einstein@oloteo.com"
+   *
    * // Handling missing values (maps to ID_PROP_UNDEFINED)
    * const idMissing = new OloId('config/', { syntax: ['section', 'key'] });
    * console.log(idMissing.toJSON()); // Output: { section: 'config', key: 'UNDEFINED' }
    * const idMissingObj = new OloId({ section: 'config' }, { syntax: ['section', 'key'] });
    * console.log(idMissingObj.toJSON()); // Output: { section: 'config', key: 'UNDEFINED' }
+   *
+   * // Syntaxes declaring property types are validated instead
+   * new OloIdSyntax().setSyntaxes([{ syntax: ['type', 'uuid'], properties: { uuid: 'uuid' } }]);
+   * new OloId('article/', { syntax: ['type', 'uuid'] }); // throws OloIdError (MISSING_VALUE)
+   * new OloId('article/abc', { syntax: ['type', 'uuid'] }); // throws OloIdError (INVALID_TYPE)
+   *
+   * // Strict mode reports gaps instead of filling them
+   * new OloId('config', { syntax: ['section', 'key'], strict: true }); // throws OloIdError (MISSING_SEGMENT)
+   *
+   * @throws {OloIdError} If the syntax declares property types and the values don't conform to them,
+   *   or if `strict` is set and the input doesn't match the syntax exactly.
    */
   constructor (
     uri: OloUri<IdentifierProperties, IdentifierValue>
@@ -110,25 +280,374 @@ export class OloId<
       syntax,
       register = false,
       separator,
+      registry,
+      strict = false,
     }: OloIdOptions<IdentifierProperties, Separator> = {}
   ) {
-    this.separator = separator ?? this.oloIdSyntax.getSeparator();
+    this.oloIdSyntax = (registry ?? (isOloId(uri) ? uri.oloIdSyntax : new OloIdSyntax())) as OloIdSyntax<Separator>;
 
     const workingUri = (isOloId(uri) ? uri.toJSON() : typeof uri === 'string' ? undefined : uri) as OloUri<IdentifierProperties, IdentifierValue> | undefined;
 
-    this.syntax = this.oloIdSyntax.getSyntaxes(
+    // An explicitly given syntax that is registered (or a level of a hierarchical syntax) is used as it is,
+    // otherwise the first registered syntax covered by the input is used.
+    const explicitDefinition = syntax ? this.oloIdSyntax.getDefinition(syntax) : undefined;
+    this.syntax = (explicitDefinition ? [...explicitDefinition.syntax] : this.oloIdSyntax.getSyntaxes(
       syntax ?? workingUri,
       { register },
-    )[0] as IdentifierProperties;
-
-    this.syntax.forEach((identifierProperty: IdentifierProperties[number], index) => {
-      if (workingUri) {
-        this.uri[identifierProperty] = workingUri[identifierProperty] || ID_PROP_UNDEFINED as IdentifierValue;
-      } else {
-        const uriList = (uri as string).split(this.separator) as IdentifierValue[];
-        this.uri[identifierProperty] = uriList[index] || ID_PROP_UNDEFINED as IdentifierValue;
+    )[0]) as IdentifierProperties;
+
+    this.definition = this.oloIdSyntax.getDefinition(this.syntax);
+    this.separator = separator ?? (this.definition?.separator ?? this.oloIdSyntax.getSeparator()) as Separator;
+
+    const uriList = (workingUri ? [] : this.stripAffixes(uri as string).split(this.separator).map(unescapeValue)) as IdentifierValue[];
+    const inputUri = this.oloIdSyntax.normalize(
+      this.syntax.reduce(
+        (acc, identifierProperty: IdentifierProperties[number], index) => {
+          acc[identifierProperty] = workingUri ? workingUri[identifierProperty] : uriList[index];
+          return acc;
+        },
+        {} as Partial<OloUri<IdentifierProperties, IdentifierValue>>,
+      ),
+      this.syntax,
+    );
+
+    const issues = strict
+      ? [
+          ...this.getStructureIssues(inputUri, workingUri ? undefined : uriList as string[]),
+          ...this.oloIdSyntax.validate(inputUri, this.syntax, { partial: true }),
+        ]
+      : this.oloIdSyntax.validate(inputUri, this.syntax);
+    if (issues.length > 0) {
+      throw new OloIdError(issues);
+    }
+
+    this.syntax.forEach((identifierProperty: IdentifierProperties[number]) => {
+      const value = inputUri[identifierProperty];
+      this.uri[identifierProperty] = value === undefined || value === '' ? ID_PROP_UNDEFINED as IdentifierValue : value;
+    });
+  }
+
+  /**
+   * Parses an identifier strictly, throwing if the input doesn't match the syntax exactly.
+   *
+   * This is a shorthand for creating an OloId with the `strict` option set.
+   *
+   * @param uri - The source data for the identifier, usually its string representation.
+   * @param options - Configuration for the OloId instance, see the constructor.
+   *
+   * @returns The parsed OloId.
+   *
+   * @throws {OloIdError} Listing every issue found if the input doesn't match the syntax.
+   *
+   * @example
+   * const id = OloId.parse('article/123', { syntax: ['type', 'id'] });
+   * OloId.parse('article/123/456', { syntax: ['type', 'id'] }); // throws OloIdError (SURPLUS_SEGMENT)
+   */
+  public static parse<
+    IdentifierProperties extends string[] = string[],
+    IdentifierValue extends string | number = string | number,
+    Separator extends string = IdSeparator
+  >(
+    uri: OloUri<IdentifierProperties, IdentifierValue> | OloId<IdentifierProperties, IdentifierValue, Separator> | string,
+    options: OloIdOptions<IdentifierProperties, Separator> = {},
+  ): OloId<IdentifierProperties, IdentifierValue, Separator> {
+    return new OloId<IdentifierProperties, IdentifierValue, Separator>(uri, { ...options, strict: true });
+  }
+
+  /**
+   * Parses an identifier strictly without throwing.
+   *
+   * @param uri - The source data for the identifier, usually its string representation.
+   * @param options - Configuration for the OloId instance, see the constructor.
+   *
+   * @returns A result object, either holding the parsed `id` or listing the `issues` found.
+   *
+   * @example
+   * const result = OloId.tryParse('article/', { syntax: ['type', 'id'] });
+   * console.log(result.success); // Output: false
+   * console.log(result.issues); // Output: [{ code: 'EMPTY_VALUE', property: 'id', value: '', message: 'Property "id" has an empty value.' }]
+   */
+  public static tryParse<
+    IdentifierProperties extends string[] = string[],
+    IdentifierValue extends string | number = string | number,
+    Separator extends string = IdSeparator
+  >(
+    uri: OloUri<IdentifierProperties, IdentifierValue> | OloId<IdentifierProperties, IdentifierValue, Separator> | string,
+    options: OloIdOptions<IdentifierProperties, Separator> = {},
+  ): OloIdParseResult<OloId<IdentifierProperties, IdentifierValue, Separator>> {
+    try {
+      return { success: true, id: OloId.parse(uri, options), issues: [] };
+    } catch (error) {
+      if (isOloIdError(error)) {
+        return { success: false, issues: error.issues };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a new identifier, filling in missing values with the generators declared for the syntax
+   * (see {@link OloIdPropertyType.generate}).
+   *
+   * @param syntax - The syntax of the new identifier.
+   * @param uri - The values known so far. Can hold further values used by generators, e.g. a `label` for slugs.
+   * @param options - Configuration for the OloId instance, see the constructor.
+   *
+   * @returns The generated OloId.
+   *
+   * @throws {OloIdError} If the resulting values are malformed for the declared property types,
+   *   or missing values couldn't be generated in `strict` mode.
+   *
+   * @example
+   * new OloIdSyntax().setSyntaxes([{
+   *   syntax: ['type', 'id', 'slug'],
+   *   properties: { id: { type: 'uuid', generate: 'uuidv7' }, slug: { type: 'slug', generate: { strategy: 'slug', from: 'title' } } },
+   * }]);
+   *
+   * const id = OloId.generate(['type', 'id', 'slug'], { type: 'article', title: 'Hello World' });
+   * console.log(id.toJSON()); // Output: { type: 'article', id: '018cc251-f400-7a8b-9f3c-4d2e1b0a9c8d', slug: 'hello-world' }
+   */
+  public static generate<
+    IdentifierProperties extends string[] = string[],
+    IdentifierValue extends string | number = string | number,
+    Separator extends string = IdSeparator
+  >(
+    syntax: NonNullable<OloIdOptions<IdentifierProperties, Separator>['syntax']>,
+    uri: Partial<OloUri<IdentifierProperties, IdentifierValue>> & { [property: string]: unknown } = {},
+    options: Omit<OloIdOptions<IdentifierProperties, Separator>, 'syntax'> = {},
+  ): OloId<IdentifierProperties, IdentifierValue, Separator> {
+    const registry = options.registry ?? new OloIdSyntax();
+
+    return new OloId<IdentifierProperties, IdentifierValue, Separator>(
+      registry.generate(uri, syntax) as OloUri<IdentifierProperties, IdentifierValue>,
+      { ...options, syntax, registry: registry as OloIdSyntax<Separator> },
+    );
+  }
+
+  /**
+   * Parses the URN representation of an identifier (see `toUrn()`).
+   *
+   * If no `syntax` is given, the first registered syntax whose URN namespace and number of properties
+   * match the URN is used.
+   *
+   * @param urn - The URN, e.g. `urn:olo:article:123`.
+   * @param options - Configuration for the OloId instance, see the constructor.
+   *
+   * @returns The parsed OloId.
+   *
+   * @throws {OloIdError} If the URN is malformed or no matching syntax is registered.
+   *
+   * @example
+   * new OloIdSyntax().setSyntaxes([{ syntax: ['type', 'id'], urn: { namespace: 'shop' } }]);
+   *
+   * const id = OloId.fromUrn('urn:shop:product:ABC');
+   * console.log(id.toJSON()); // Output: { type: 'product', id: 'ABC' }
+   */
+  public static fromUrn<
+    IdentifierProperties extends string[] = string[],
+    IdentifierValue extends string | number = string | number,
+    Separator extends string = IdSeparator
+  >(urn: string, options: OloIdOptions<IdentifierProperties, Separator> = {}): OloId<IdentifierProperties, IdentifierValue, Separator> {
+    const [scheme, namespace, ...segments] = urn.split(':');
+
+    if (scheme?.toLowerCase() !== 'urn' || !namespace || segments.length === 0) {
+      throw new OloIdError([{ code: OloIdIssueCode.invalidFormat, value: urn, message: `"${urn}" is not a valid URN.` }]);
+    }
+
+    return OloId.fromSegments<IdentifierProperties, IdentifierValue, Separator>(urn, segments, namespace, options);
+  }
+
+  /**
+   * Parses the URL path representation of an identifier (see `toUrlPath()`).
+   * Leading and trailing slashes are ignored.
+   *
+   * If no `syntax` is given, the first registered syntax with a matching number of properties is used.
+   *
+   * @param path - The URL path, e.g. `/article/123`.
+   * @param options - Configuration for the OloId instance, see the constructor.
+   *
+   * @returns The parsed OloId.
+   *
+   * @throws {OloIdError} If the number of segments doesn't match the syntax or no matching syntax is registered.
+   *
+   * @example
+   * const id = OloId.fromUrlPath('/product/ABC%2F1', { syntax: ['type', 'id'] });
+   * console.log(id.toJSON()); // Output: { type: 'product', id: 'ABC/1' }
+   */
+  public static fromUrlPath<
+    IdentifierProperties extends string[] = string[],
+    IdentifierValue extends string | number = string | number,
+    Separator extends string = IdSeparator
+  >(path: string, options: OloIdOptions<IdentifierProperties, Separator> = {}): OloId<IdentifierProperties, IdentifierValue, Separator> {
+    return OloId.fromSegments<IdentifierProperties, IdentifierValue, Separator>(path, path.replace(/^\/+|\/+$/g, '').split('/'), undefined, options);
+  }
+
+  /**
+   * Parses the query string representation of an identifier (see `toQueryString()`).
+   *
+   * Parameters that are not part of the syntax are ignored. If no `syntax` is given,
+   * it's determined from the parameter names like for `OloUri` objects.
+   *
+   * @param query - The query string (with or without leading `?`) or a `URLSearchParams` instance.
+   * @param options - Configuration for the OloId instance, see the constructor.
+   *
+   * @returns The parsed OloId. All values are strings.
+   *
+   * @example
+   * const id = OloId.fromQueryString('?type=product&id=ABC', { syntax: ['type', 'id'] });
+   * console.log(id.toJSON()); // Output: { type: 'product', id: 'ABC' }
+   */
+  public static fromQueryString<
+    IdentifierProperties extends string[] = string[],
+    IdentifierValue extends string | number = string | number,
+    Separator extends string = IdSeparator
+  >(query: string | URLSearchParams, options: OloIdOptions<IdentifierProperties, Separator> = {}): OloId<IdentifierProperties, IdentifierValue, Separator> {
+    const uri = Object.fromEntries(new URLSearchParams(query)) as OloUri<IdentifierProperties, IdentifierValue>;
+
+    return new OloId<IdentifierProperties, IdentifierValue, Separator>(uri, options);
+  }
+
+  /**
+   * Decodes a token created by `toToken()`.
+   *
+   * @param token - The token to decode.
+   * @param options - Configuration for the OloId instance, see the constructor. The syntax is taken from the token.
+   * @param options.signer - If set, the token needs to be signed by this signer and is verified first.
+   * @param options.audience - The audience (or list of audiences) accepted when verifying a signed token.
+   * @param options.now - The point in time the expiry of a signed token is checked against. Defaults to the current time.
+   *
+   * @returns The decoded OloId.
+   *
+   * @throws {OloIdError} If the token is malformed or holds more than one OloId,
+   *   or if a `signer` is set and the token isn't signed by it, has expired or was issued for another audience.
+   *
+   * @example
+   * const id = new OloId({ type: 'article', id: 123 }, { syntax: ['type', 'id'] });
+   * console.log(OloId.fromToken(id.toToken()).isSame(id)); // Output: true
+   *
+   * const signer = new OloIdSigner(secret);
+   * OloId.fromToken(id.toToken({ signer, audience: 'web' }), { signer, audience: 'web' });
+   */
+  public static fromToken<
+    IdentifierProperties extends string[] = string[],
+    IdentifierValue extends string | number = string | number,
+    Separator extends string = IdSeparator
+  >(
+    token: string,
+    { signer, audience, now, ...options }: Omit<OloIdOptions<IdentifierProperties, Separator>, 'syntax'> & OloIdTokenDecodeOptions = {},
+  ): OloId<IdentifierProperties, IdentifierValue, Separator> {
+    const idEntries = decodeOloIdToken(signer ? signer.verify(token, { audience, now }) : token);
+    const [entries] = idEntries;
+
+    if (!entries || idEntries.length > 1) {
+      throw new OloIdError([{ code: OloIdIssueCode.invalidFormat, value: token, message: `Token holds ${idEntries.length} ids instead of one.` }]);
+    }
+
+    return new OloId<IdentifierProperties, IdentifierValue, Separator>(
+      Object.fromEntries(entries) as OloUri<IdentifierProperties, IdentifierValue>,
+      { ...options, syntax: entries.map(([property]) => property) as IdentifierProperties },
+    );
+  }
+
+  /**
+   * Creates an OloId from the segments of a URN or URL path.
+   *
+   * @param input - The full input, used in issue messages.
+   * @param segments - The percent-encoded values in segment order.
+   * @param namespace - The URN namespace, `undefined` for URL paths.
+   * @param options - Configuration for the OloId instance, see the constructor.
+   *
+   * @returns The created OloId.
+   *
+   * @throws {OloIdError} If the namespace or the number of segments doesn't match the syntax, or no matching syntax is registered.
+   *
+   * @private
+   */
+  private static fromSegments<
+    IdentifierProperties extends string[],
+    IdentifierValue extends string | number,
+    Separator extends string
+  >(
+    input: string,
+    segments: string[],
+    namespace: string | undefined,
+    options: OloIdOptions<IdentifierProperties, Separator>,
+  ): OloId<IdentifierProperties, IdentifierValue, Separator> {
+    const registry = options.registry ?? new OloIdSyntax();
+    const matchesNamespace = (definition: OloIdSyntaxDefinition) =>
+      namespace === undefined || (definition.urn?.namespace ?? ID_URN_NAMESPACE).toLowerCase() === namespace.toLowerCase();
+
+    const syntax = typeof options.syntax === 'string' ? options.syntax.split(options.separator ?? registry.getSeparator()) : options.syntax;
+    const definition: OloIdSyntaxDefinition | undefined = syntax
+      ? registry.getDefinition(syntax) ?? { syntax }
+      : registry.getDefinitions().find(definition => definition.syntax.length === segments.length && matchesNamespace(definition));
+
+    if (!definition) {
+      throw new OloIdError([{ code: OloIdIssueCode.unknownSyntax, value: input, message: `No registered syntax matches "${input}".` }]);
+    }
+
+    const issues: OloIdIssue[] = [];
+    if (!matchesNamespace(definition)) {
+      issues.push({
+        code: OloIdIssueCode.invalidFormat,
+        value: namespace,
+        message: `Expected namespace "${definition.urn?.namespace ?? ID_URN_NAMESPACE}", found "${namespace}".`,
+      });
+    }
+    if (segments.length !== definition.syntax.length) {
+      issues.push({
+        code: OloIdIssueCode.invalidFormat,
+        value: segments,
+        message: `Expected ${definition.syntax.length} segment(s) for syntax "${definition.syntax.join(registry.getSeparator())}", found ${segments.length}.`,
+      });
+    }
+    if (issues.length > 0) {
+      throw new OloIdError(issues);
+    }
+
+    const uri = Object.fromEntries(
+      getSegmentOrder(definition).map((property, index) => [property, unescapeValue(segments[index] ?? '')]),
+    ) as OloUri<IdentifierProperties, IdentifierValue>;
+
+    return new OloId<IdentifierProperties, IdentifierValue, Separator>(uri, { ...options, syntax: definition.syntax as IdentifierProperties, registry });
+  }
+
+  /**
+   * Collects the issues of an input that doesn't match the syntax of this OloId exactly.
+   * Used in strict mode.
+   *
+   * @param inputUri - The values assigned to the properties of the syntax.
+   * @param segments - The segments of the string representation, if the OloId is created from a string.
+   *
+   * @returns A list of the issues found: unknown syntax, missing or surplus segments and missing or empty values.
+   *
+   * @private
+   */
+  private getStructureIssues(inputUri: Partial<OloUri<IdentifierProperties, IdentifierValue>>, segments?: string[]): OloIdIssue[] {
+    const issues: OloIdIssue[] = [];
+
+    if (!this.definition || (this.syntax.length === 1 && this.syntax[0] === ID_TYPE_UNDEFINED)) {
+      issues.push({ code: OloIdIssueCode.unknownSyntax, message: `Syntax "${this.toSyntaxString()}" is not registered.` });
+    }
+
+    this.syntax.forEach((property: IdentifierProperties[number], index) => {
+      const value = inputUri[property];
+
+      if (segments && index >= segments.length) {
+        issues.push({ code: OloIdIssueCode.missingSegment, property, message: `Segment for property "${property}" is missing.` });
+      } else if (value === undefined || value === null) {
+        issues.push({ code: OloIdIssueCode.missingValue, property, value, message: `Property "${property}" is missing a value.` });
+      } else if (value === '') {
+        issues.push({ code: OloIdIssueCode.emptyValue, property, value, message: `Property "${property}" has an empty value.` });
       }
     });
+
+    if (segments && segments.length > this.syntax.length) {
+      const surplus = segments.slice(this.syntax.length);
+      issues.push({ code: OloIdIssueCode.surplusSegment, value: surplus, message: `Found ${surplus.length} surplus segment(s): ${surplus.join(', ')}.` });
+    }
+
+    return issues;
   }
 
   /**
@@ -138,9 +657,11 @@ export class OloId<
    * a string, an OloUri object, or another OloIdentifier instance (like OloId).
    *
    * @param identifier - The identifier to compare against the current instance.
-   *   - If a `string`, it's parsed based on the provided or instance's `syntax` and `separator`.
+   *   - If a `string`, it's parsed based on the provided or instance's `syntax` and the instance's `separator`, prefix and suffix.
    *   - If an `OloUri`, it's compared directly based on key-value pairs.
    *   - If an `OloIdentifier`, its internal `uri` representation is used for comparison.
+   *   Values are normalized with the normalizers declared for the syntax of this instance before they are compared
+   *   by their string representation, like in `canonicalize()`, so `1` and `'1'` are the same.
    * @param options - Optional configuration for the comparison.
    * @param options.syntax - Specifies the order and names of properties if `identifier` is a string.
    *   Can be a separator-joined string (e.g., "type1/type2") or an array of strings (e.g., ["type1", "type2"]).
@@ -148,6 +669,9 @@ export class OloId<
    *
    * @returns `true` if the provided `identifier` represents the same logical ID as the current instance, `false` otherwise.
    *
+   * @throws {OloIdError} If the syntax declares property types and a value of `identifier` is malformed.
+   *   Missing values are not reported, they just don't match.
+   *
    * @example
    * const id1 = new OloId('valA/valB', { syntax: ['prop1', 'prop2'] });
    * const id2 = new OloId({ prop1: 'valA', prop2: 'valB' });
@@ -165,7 +689,7 @@ export class OloId<
   ): boolean {
     let compId: OloUri<IdentifierProperties>;
     if (isOloId(identifier)) {
-      compId = identifier['uri'] as OloUri<IdentifierProperties>;
+      compId = this.oloIdSyntax.normalize(identifier['uri'] as OloUri<IdentifierProperties>, this.syntax);
     } else {
     const idParamIsString = typeof identifier === 'string';
 
@@ -173,10 +697,17 @@ export class OloId<
 
     compId = idParamIsString
       ? syntaxList.reduce((acc, key: IdentifierProperties[number], index) => {
-          acc[key] = syntaxList.length === 1 ? identifier : identifier.split(this.separator)[index] ?? '';
+          const values = this.stripAffixes(identifier);
+          acc[key] = unescapeValue(syntaxList.length === 1 ? values : values.split(this.separator)[index] ?? '');
           return acc;
         }, {} as OloUri<IdentifierProperties>)
       : identifier as OloUri<IdentifierProperties>;
+    compId = this.oloIdSyntax.normalize(compId, this.syntax);
+
+    const issues = this.oloIdSyntax.validate(compId, this.syntax, { partial: true });
+    if (issues.length > 0) {
+      throw new OloIdError(issues);
+    }
     }
 
     return (Object.keys(this.uri) as IdentifierProperties)
@@ -185,12 +716,224 @@ export class OloId<
           return result;
         }
 
-        return compId[key] === this.uri[key];
+        return compId[key] != null && String(compId[key]) === String(this.uri[key]);
       },
       true
     );
   }
 
+  /**
+   * Returns the OloId of the parent level within a hierarchical syntax (see {@link OloIdSyntaxDefinition.hierarchical}),
+   * i.e. the OloId holding all values but the last one.
+   *
+   * @returns The parent OloId, or `undefined` if the OloId is at the root level or its syntax isn't hierarchical.
+   *
+   * @example
+   * new OloIdSyntax().setSyntaxes([{ syntax: ['org', 'project', 'item'], hierarchical: true }]);
+   *
+   * const item = new OloId('oloteo/website/home', { syntax: ['org', 'project', 'item'] });
+   * console.log(item.parent()?.toString()); // Output: "oloteo/website"
+   * console.log(item.parent()?.parent()?.parent()); // Output: undefined
+   */
+  public parent(): OloId<string[], IdentifierValue, Separator> | undefined {
+    if (this.syntax.length < 2 || this.oloIdSyntax.getHierarchies(this.syntax).length === 0) {
+      return undefined;
+    }
+
+    const syntax = this.syntax.slice(0, -1);
+
+    return new OloId<string[], IdentifierValue, Separator>(
+      Object.fromEntries(syntax.map(property => [property, this.uri[property as IdentifierProperties[number]]])) as OloUri<string[], IdentifierValue>,
+      { syntax, registry: this.oloIdSyntax },
+    );
+  }
+
+  /**
+   * Returns the OloId of a child level within a hierarchical syntax (see {@link OloIdSyntaxDefinition.hierarchical}),
+   * holding the values of this OloId and the given ones.
+   *
+   * @param values - The value of the next property of the hierarchy, or the values of one or more of the following properties.
+   *   The child OloId ends with the last property given; missing values in between are filled with `ID_PROP_UNDEFINED`.
+   *
+   * @returns The child OloId.
+   *
+   * @throws {TypeError} If no hierarchical syntax continues the syntax of the OloId with the given properties.
+   * @throws {OloIdError} If the child values are malformed for the declared property types of the hierarchy.
+   *
+   * @example
+   * new OloIdSyntax().setSyntaxes([{ syntax: ['org', 'project', 'item'], hierarchical: true }]);
+   *
+   * const org = new OloId('oloteo', { syntax: ['org'] });
+   * console.log(org.child('website').toString()); // Output: "oloteo/website"
+   * console.log(org.child({ project: 'website', item: 'home' }).toString()); // Output: "oloteo/website/home"
+   */
+  public child(values: IdentifierValue | Partial<OloUri<string[], IdentifierValue>>): OloId<string[], IdentifierValue, Separator> {
+    const childValues = typeof values === 'object' ? values : undefined;
+    const hierarchy = this.oloIdSyntax.getHierarchies(this.syntax).find(
+      (syntax) => syntax.length > this.syntax.length
+        && Object.keys(childValues ?? {}).every(property => syntax.indexOf(property) >= this.syntax.length),
+    );
+
+    if (!hierarchy) {
+      const properties = childValues ? ` with the properties ${Object.keys(childValues).join(', ')}` : '';
+      throw new TypeError(`No hierarchical syntax continues "${this.toSyntaxString()}"${properties}.`);
+    }
+
+    const length = childValues
+      ? Math.max(this.syntax.length + 1, ...Object.keys(childValues).map(property => hierarchy.indexOf(property) + 1))
+      : this.syntax.length + 1;
+    const syntax = hierarchy.slice(0, length);
+
+    return new OloId<string[], IdentifierValue, Separator>(
+      { ...this.uri, ...(childValues ?? { [syntax[length - 1] as string]: values }) } as OloUri<string[], IdentifierValue>,
+      { syntax, registry: this.oloIdSyntax },
+    );
+  }
+
+  /**
+   * Returns the OloIds of all parent levels within a hierarchical syntax (see `parent()`).
+   *
+   * @returns The ancestors, starting at the root level. Empty if the OloId is at the root level or its syntax isn't hierarchical.
+   *
+   * @example
+   * new OloIdSyntax().setSyntaxes([{ syntax: ['org', 'project', 'item'], hierarchical: true }]);
+   *
+   * const item = new OloId('oloteo/website/home', { syntax: ['org', 'project', 'item'] });
+   * console.log(item.ancestors().map(id => id.toString())); // Output: ['oloteo', 'oloteo/website']
+   */
+  public ancestors(): OloId<string[], IdentifierValue, Separator>[] {
+    const parent = this.parent();
+
+    return parent ? [...parent.ancestors(), parent] : [];
+  }
+
+  /**
+   * Checks if the OloId is a descendant of another identifier within a hierarchical syntax,
+   * i.e. if the other identifier is a parent level of this OloId holding the same values.
+   *
+   * @param other - The potential ancestor: an OloId or an OloUri with the properties of a parent level.
+   *
+   * @returns `true` if the OloId is a (direct or indirect) descendant of `other`, `false` otherwise.
+   *   An OloId is not a descendant of itself.
+   *
+   * @example
+   * new OloIdSyntax().setSyntaxes([{ syntax: ['org', 'project', 'item'], hierarchical: true }]);
+   *
+   * const item = new OloId('oloteo/website/home', { syntax: ['org', 'project', 'item'] });
+   * console.log(item.isDescendantOf({ org: 'oloteo' })); // Output: true
+   * console.log(item.isDescendantOf(new OloId('oloteo/shop', { syntax: ['org', 'project'] }))); // Output: false
+   */
+  public isDescendantOf(other: OloUri | OloId): boolean {
+    const otherUri = (isOloId(other) ? other['uri'] : other) as OloUri;
+    const syntax = this.syntax.slice(0, Object.keys(otherUri).length);
+
+    if (syntax.length === 0
+      || syntax.length === this.syntax.length
+      || !syntax.every(property => property in otherUri)
+      || this.oloIdSyntax.getHierarchies(this.syntax).length === 0
+    ) {
+      return false;
+    }
+
+    const normalized = this.oloIdSyntax.normalize(otherUri, syntax);
+
+    return syntax.every(property => String(normalized[property]) === String(this.uri[property as IdentifierProperties[number]]));
+  }
+
+  /**
+   * Checks if the OloId matches a pattern (see {@link OloIdPattern}), e.g. to grant access to all ids of a type.
+   *
+   * Unlike `isSame`, patterns can contain `*` wildcards and cover only a part of the syntax: string patterns with
+   * fewer values than the syntax match on its leading properties, object patterns on the listed properties.
+   * Values without wildcards are normalized like in `isSame` and compared by their string representation.
+   * Wildcards don't match missing values.
+   *
+   * @param pattern - The pattern to match, e.g. `'article/*'`, `'article'` or `{ type: 'article' }`.
+   *
+   * @returns An {@link OloIdMatchResult}. If the OloId matches, its `captures` hold the values of all properties
+   *   matched by a wildcard or not covered by the pattern.
+   *
+   * @example
+   * const id = new OloId('article/123', { syntax: ['type', 'id'] });
+   *
+   * console.log(id.matches('article/*')); // Output: { matched: true, syntax: ['type', 'id'], captures: { id: '123' } }
+   * console.log(id.matches('article').captures); // Output: { id: '123' }
+   * console.log(id.matches({ type: 'video' }).matched); // Output: false
+   */
+  public matches(pattern: OloIdPattern): OloIdMatchResult<IdentifierValue> {
+    const constraints = typeof pattern === 'string'
+      ? this.splitPattern(pattern)
+      : Object.entries(pattern).map(([property, value]): [string, string[]] => [property, String(value).split(WILDCARD)]);
+
+    if (!constraints || constraints.some(([property]) => !this.syntax.includes(property))) {
+      return { matched: false };
+    }
+
+    const patternValues = new Map(constraints);
+    const literals = this.oloIdSyntax.normalize(
+      Object.fromEntries(constraints.filter(([, pieces]) => pieces.length === 1).map(([property, [value]]) => [property, value])),
+      this.syntax,
+    );
+    const captures: { [property: string]: IdentifierValue } = {};
+
+    const matched = (this.syntax as string[]).every((property) => {
+      const value = this.uri[property as IdentifierProperties[number]];
+      const pieces = patternValues.get(property);
+
+      if (!pieces) {
+        captures[property] = value;
+        return true;
+      }
+      if (pieces.length === 1) {
+        return String(literals[property]) === String(value);
+      }
+
+      captures[property] = value;
+      return value !== ID_PROP_UNDEFINED && getWildcardRegExp(pieces).test(String(value));
+    });
+
+    return matched ? { matched, syntax: [...this.syntax], captures } : { matched: false };
+  }
+
+  /**
+   * Splits a string pattern into the pieces between its wildcards per property of the syntax.
+   *
+   * @param pattern - A pattern in the string representation of the OloId.
+   *
+   * @returns The property names with the unescaped pieces of their patterns,
+   *   or `undefined` if the pattern has more values than the syntax.
+   *
+   * @private
+   */
+  private splitPattern(pattern: string): [string, string[]][] | undefined {
+    const values = this.stripAffixes(pattern);
+    const segments = this.syntax.length === 1 ? [values] : values.split(this.separator);
+
+    if (segments.length > this.syntax.length) {
+      return undefined;
+    }
+
+    return segments.map((segment, index) => [this.syntax[index] as string, segment.split(WILDCARD).map(unescapeValue)]);
+  }
+
+  /**
+   * Removes the prefix and suffix registered for the syntax from a string representation.
+   * Strings without the prefix or suffix are returned unchanged.
+   *
+   * @param uri - The string representation of an identifier.
+   *
+   * @returns The part of the string holding the separator-joined values.
+   *
+   * @private
+   */
+  private stripAffixes(uri: string): string {
+    const { prefix = '', suffix = '' } = this.definition ?? {};
+    const start = prefix && uri.startsWith(prefix) ? prefix.length : 0;
+    const end = suffix && uri.endsWith(suffix) && uri.length - suffix.length >= start ? uri.length - suffix.length : uri.length;
+
+    return uri.slice(start, end);
+  }
+
   /**
    * Returns a string representation of the identifier's syntax (the property names)
    * joined by a specified separator.
@@ -217,8 +960,13 @@ export class OloId<
    * in the order defined by its syntax, using a specified separator.
    * This is the primary string representation of the identifier's value part.
    *
+   * The prefix and suffix registered for the syntax are added to the result.
+   * `%` and the characters of the separator are percent-encoded within the values (e.g. `/` as `%2F`),
+   * so the result can be parsed back into the same OloId.
+   *
    * @param separator - The separator string to use between the identifier's values.
-   *   Defaults to the separator defined for this OloId instance (`this.separator`).
+   *   Defaults to the separator defined for this OloId instance (`this.separator`),
+   *   which in turn defaults to the separator registered for its syntax.
    *
    * @returns A string representing the joined values of the OloId.
    *
@@ -228,11 +976,213 @@ export class OloId<
    * console.log(id.toString());    // Output: "valA/valB"
    * console.log(id.toString('-')); // Output: "valA-valB"
    *
+   * const idWithSeparator = new OloId({ prop1: 'valA', prop2: 'a/b' }, { syntax: ['prop1', 'prop2'] });
+   * console.log(idWithSeparator.toString()); // Output: "valA/a%2Fb"
+   *
    * const idWithUndefined = new OloId({ prop1: 'valA', prop2: undefined }, { syntax: ['prop1', 'prop2'] });
    * console.log(idWithUndefined.toString()); // Output: "valA/undefined" (assuming default separator '/')
    */
   public toString(separator: string = this.separator) {
-    return this.syntax.map((key: IdentifierProperties[number]) => this.uri[key]).join(separator);
+    const { prefix = '', suffix = '' } = this.definition ?? {};
+
+    return prefix + this.syntax.map((key: IdentifierProperties[number]) => escapeValue(this.uri[key], separator)).join(separator) + suffix;
+  }
+
+  /**
+   * Returns the URN representation of the OloId: `urn:<namespace>:<values>`.
+   *
+   * The namespace and the order of the values are taken from the `urn` format registered for the syntax
+   * and default to `olo` and the syntax order. Values are percent-encoded.
+   *
+   * @returns The URN of the OloId.
+   *
+   * @example
+   * const id = new OloId({ type: 'product', id: 'ABC:1' }, { syntax: ['type', 'id'] });
+   * console.log(id.toUrn()); // Output: "urn:olo:product:ABC%3A1"
+   */
+  public toUrn(): string {
+    const namespace = this.definition?.urn?.namespace ?? ID_URN_NAMESPACE;
+
+    return ['urn', namespace, ...this.getSegments()].join(':');
+  }
+
+  /**
+   * Returns the URL path representation of the OloId: its percent-encoded values joined by `/`,
+   * in the order of the `urn` format registered for the syntax.
+   *
+   * @returns The URL path of the OloId, without leading slash.
+   *
+   * @example
+   * const id = new OloId({ type: 'product', id: 'ABC/1' }, { syntax: ['type', 'id'] });
+   * console.log(id.toUrlPath()); // Output: "product/ABC%2F1"
+   */
+  public toUrlPath(): string {
+    return this.getSegments().join('/');
+  }
+
+  /**
+   * Returns the query string representation of the OloId, using the property names as parameter names.
+   *
+   * @returns The query string of the OloId, without leading `?`.
+   *
+   * @example
+   * const id = new OloId({ type: 'product', id: 'ABC' }, { syntax: ['type', 'id'] });
+   * console.log(id.toQueryString()); // Output: "type=product&id=ABC"
+   */
+  public toQueryString(): string {
+    return new URLSearchParams(
+      this.syntax.map((property: IdentifierProperties[number]): [string, string] => [property, String(this.uri[property])]),
+    ).toString();
+  }
+
+  /**
+   * Encodes the OloId into an opaque, URL-safe token that can be decoded with `OloId.fromToken()`.
+   *
+   * The token is the base64url encoded canonical form of the OloId (its syntax and values),
+   * so it doesn't depend on the registry the OloId is created with.
+   *
+   * @param options - Optional configuration.
+   * @param options.signer - If set, the token is signed with this {@link OloIdSigner}.
+   * @param options.expiresIn - The number of seconds after which a signed token expires.
+   * @param options.expiresAt - The point in time a signed token expires at.
+   * @param options.audience - The audience a signed token is issued for.
+   *
+   * @returns The token.
+   *
+   * @example
+   * const id = new OloId({ type: 'article', id: 123 }, { syntax: ['type', 'id'] });
+   * console.log(id.toToken()); // Output: "W1sidHlwZSIsImFydGljbGUiXSxbImlkIiwxMjNdXQ"
+   * console.log(id.toToken({ signer: new OloIdSigner(secret), expiresIn: 3600 })); // Output: "W1sidHlw...XQ.eyJleHAi...fQ.kQ2x..."
+   */
+  public toToken({ signer, ...signOptions }: OloIdTokenOptions = {}): string {
+    const token = encodeOloIdToken(this.toTokenEntries());
+
+    return signer ? signer.sign(token, signOptions) : token;
+  }
+
+  /**
+   * Returns the canonical form of the OloId used in tokens.
+   *
+   * @returns The properties and values of the OloId in syntax order.
+   *
+   * @private
+   */
+  private toTokenEntries(): OloIdTokenEntries {
+    return this.syntax.map((property: IdentifierProperties[number]): [string, string | number] => [property, this.uri[property]]);
+  }
+
+  /**
+   * Returns the canonical form of the OloId: its percent-encoded properties and values
+   * as `property=value` pairs, sorted by property name and joined by `&`.
+   *
+   * The canonical form is the same for all OloIds representing the same identity, regardless of the
+   * order of their syntax properties, the registry they were created with or whether values are
+   * numbers or numeric strings (`1` and `'1'`).
+   *
+   * @returns The canonical form of the OloId.
+   *
+   * @example
+   * const id1 = new OloId({ type: 'article', id: 1 }, { syntax: ['type', 'id'] });
+   * const id2 = new OloId({ id: '1', type: 'article' }, { syntax: ['id', 'type'] });
+   *
+   * console.log(id1.canonicalize()); // Output: "id=1&type=article"
+   * console.log(id1.canonicalize() === id2.canonicalize()); // Output: true
+   */
+  public canonicalize(): string {
+    return [...this.syntax]
+      .sort()
+      .map((property: IdentifierProperties[number]) => `${encodeURIComponent(property)}=${encodeURIComponent(String(this.uri[property]))}`)
+      .join('&');
+  }
+
+  /**
+   * Returns a stable SHA-256 hash of the canonical form of the OloId (see `canonicalize()`),
+   * e.g. to be used as a cache or Map key.
+   *
+   * @returns The hex encoded hash.
+   *
+   * @example
+   * const id = new OloId({ type: 'article', id: 1 }, { syntax: ['type', 'id'] });
+   * console.log(id.hash() === new OloId({ id: '1', type: 'article' }).hash()); // Output: true
+   */
+  public hash(): string {
+    return sha256(this.canonicalize());
+  }
+
+  /**
+   * Extracts the timestamp embedded in a value of a time-ordered id scheme (ULID, UUIDv7 or snowflake-like ids).
+   *
+   * The scheme is taken from the `timestamp` (or `generate`) declaration of the property. Values of properties
+   * declaring neither don't embed a timestamp, even if they look like one.
+   *
+   * @param property - The property holding the time-ordered value. Defaults to the first property (in syntax order) embedding a timestamp.
+   *
+   * @returns The embedded timestamp, or `undefined` if there is none.
+   *
+   * @example
+   * new OloIdSyntax().setSyntaxes([{ syntax: ['type', 'id'], properties: { id: { timestamp: 'ulid' } } }]);
+   *
+   * const id = new OloId({ type: 'article', id: '01ARYZ6S41TSV4RRFFQ69G5FAV' });
+   * console.log(id.getTimestamp()); // Output: 2016-07-30T22:36:16.385Z
+   */
+  public getTimestamp(property?: IdentifierProperties[number]): Date | undefined {
+    const properties = property === undefined ? this.syntax : [property].filter(item => this.syntax.includes(item));
+
+    return properties.reduce<Date | undefined>(
+      (timestamp, item: IdentifierProperties[number]) => {
+        const value = this.uri[item];
+        return timestamp ?? (value === ID_PROP_UNDEFINED ? undefined : getValueTimestamp(value, this.definition?.properties?.[item]));
+      },
+      undefined,
+    );
+  }
+
+  /**
+   * Compares the OloId with another one in a total order, e.g. to sort or paginate ids (see also {@link sortOloIds}).
+   *
+   * OloIds are ordered by their syntax first, then by their values in syntax order. Values embedding a timestamp
+   * (see `getTimestamp()`) come first and are ordered by time, followed by integers ordered numerically
+   * and all other values ordered by their UTF-16 code units.
+   *
+   * @param other - The OloId to compare with.
+   *
+   * @returns A negative number if this OloId comes first, a positive number if `other` comes first, `0` if they are equal.
+   *
+   * @example
+   * const first = new OloId({ type: 'article', id: 9 }, { syntax: ['type', 'id'] });
+   * const second = new OloId({ type: 'article', id: 10 }, { syntax: ['type', 'id'] });
+   *
+   * console.log(first.compare(second) < 0); // Output: true
+   * console.log([second, first].sort((a, b) => a.compare(b))); // Output: [first, second]
+   */
+  public compare(other: OloId): number {
+    const syntax = this.toSyntaxString('\u0000');
+    const otherSyntax = other.toSyntaxString('\u0000');
+
+    if (syntax !== otherSyntax) {
+      return syntax < otherSyntax ? -1 : 1;
+    }
+
+    return (this.syntax as string[]).reduce(
+      (result, property) => result || compareValues(
+        this.uri[property as IdentifierProperties[number]],
+        other['uri'][property] as string | number,
+        this.definition?.properties?.[property],
+      ),
+      0,
+    );
+  }
+
+  /**
+   * Returns the percent-encoded values of the OloId in URN and URL path segment order.
+   *
+   * @returns The encoded segments.
+   *
+   * @private
+   */
+  private getSegments(): string[] {
+    return getSegmentOrder(this.definition ?? { syntax: this.syntax })
+      .map(property => encodeURIComponent(String(this.uri[property as IdentifierProperties[number]])));
   }
 
   [Symbol.toPrimitive]() { return this.toString(); }
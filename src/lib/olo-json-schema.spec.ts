@@ -0,0 +1,119 @@
+import { Format, Formats, ReferenceType } from '../types/index.ts';
+import { OloDescriptor } from './olo-descriptor.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+import { OloReference } from './olo-reference.ts';
+import { OloResource } from './olo-resource/index.ts';
+import { getOloJsonSchema, validateJsonSchema, validateOloJson } from './olo-json-schema.ts';
+
+describe('getOloJsonSchema', () => {
+  const registry = new OloIdSyntax([{ syntax: ['type', 'id'], properties: { id: 'uuid' } }, 'username/domain'], { scoped: true });
+
+  it('should generate a draft 2020-12 schema for each serialized form', () => {
+    const descriptor = getOloJsonSchema('descriptor', { registry });
+    const reference = getOloJsonSchema('reference', { registry });
+    const resource = getOloJsonSchema('resource', { registry });
+
+    expect(descriptor.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(descriptor.title).toBe('OloDescriptor');
+    expect(descriptor.required).toEqual(['uri', 'format', 'parts']);
+    expect(descriptor.properties?.['format']?.enum).toEqual(Formats);
+    expect(reference.required).toEqual(['uri', 'format', 'parts', 'type', 'label']);
+    expect(reference.properties?.['type']?.enum).toEqual(Object.values(ReferenceType));
+    expect(resource.required).toEqual(['uri', 'format', 'parts', 'type', 'label', 'cropable']);
+    expect(Object.keys(resource.properties ?? {})).toContain('filetype');
+  });
+
+  it('should cover the registered syntaxes in the uri', () => {
+    const uri = getOloJsonSchema('descriptor', { registry }).$defs?.['uri'];
+
+    expect(uri?.anyOf).toEqual([
+      {
+        properties: { type: { type: ['string', 'number'] }, id: expect.objectContaining({ type: 'string' }) },
+        required: ['type', 'id'],
+      },
+      {
+        properties: { username: { type: ['string', 'number'] }, domain: { type: ['string', 'number'] } },
+        required: ['username', 'domain'],
+      },
+    ]);
+  });
+});
+
+describe('validateOloJson', () => {
+  const registry = new OloIdSyntax([{ syntax: ['type', 'id'], properties: { id: 'uuid' } }, 'username/domain'], { scoped: true });
+  const uuid = '3b241101-e2bb-4255-8caf-4136c566a962';
+
+  it('should accept the serialized forms', () => {
+    const descriptor = new OloDescriptor({ uri: { username: 'albert', domain: 'oloteo.com' }, parts: { body: { title: true } } }, { registry });
+    const reference = new OloReference({ uri: { type: 'article', id: uuid }, type: ReferenceType.external, label: 'Article' }, { registry });
+    const resource = new OloResource({
+      uri: { type: 'image', id: uuid },
+      format: Format.image,
+      filetype: 'image/png',
+      width: 500,
+      height: 200,
+      ratio: [5, 2],
+      focus: [0.5, 0.2],
+    }, { registry });
+
+    expect(validateOloJson('descriptor', descriptor.toJSON(), { registry })).toEqual({ success: true, value: descriptor.toJSON(), errors: [] });
+    expect(validateOloJson('reference', reference.toJSON(), { registry }).success).toBe(true);
+    expect(validateOloJson('resource', resource.toJSON(), { registry }).success).toBe(true);
+    expect(validateOloJson('resource', JSON.parse(JSON.stringify(resource)), { registry }).success).toBe(true);
+  });
+
+  it('should reject patterns with flags changing their matching', () => {
+    const flagged = new OloIdSyntax([{ syntax: ['code'], properties: { code: { pattern: /^[a-z]+$/i } } }], { scoped: true });
+    const unicode = new OloIdSyntax([{ syntax: ['code'], properties: { code: { pattern: /^[a-z]+$/gu } } }], { scoped: true });
+
+    expect(() => getOloJsonSchema('descriptor', { registry: flagged })).toThrow(TypeError);
+    expect(() => validateOloJson('descriptor', {}, { registry: flagged })).toThrow('uses the flags "i"');
+    expect(getOloJsonSchema('descriptor', { registry: unicode }).$defs?.['uri']?.anyOf?.[0]?.properties?.['code']?.allOf).toEqual([
+      { pattern: '^[a-z]+$' },
+    ]);
+  });
+
+  it('should report path-based errors', () => {
+    const result = validateOloJson('resource', {
+      uri: { type: 'image', id: 'ae123' },
+      format: 'PICTURE',
+      parts: true,
+      type: ReferenceType.self,
+      label: '',
+      width: 'wide',
+      ratio: [16, '9'],
+      focus: [0.5, 2],
+    }, { registry });
+
+    expect(result.success).toBe(false);
+    expect(result.errors.map(({ path, keyword }) => [path, keyword])).toEqual([
+      ['/uri/id', 'pattern'],
+      ['/format', 'enum'],
+      ['/width', 'type'],
+      ['/ratio/1', 'type'],
+      ['/focus/1', 'maximum'],
+      ['/cropable', 'required'],
+    ]);
+    expect(result.errors[2]).toEqual({ path: '/width', keyword: 'type', value: 'wide', message: 'must be integer' });
+  });
+
+  it('should report the closest alternative', () => {
+    const invalidParts = validateOloJson('descriptor', { uri: { username: 'albert', domain: 'oloteo.com' }, format: Format.text, parts: 'all' }, { registry });
+    const invalidSelector = validateOloJson('descriptor', { uri: { username: 'albert', domain: 'oloteo.com' }, format: Format.text, parts: { body: { title: [] } } }, { registry });
+    const unknownSyntax = validateOloJson('descriptor', { uri: { slug: 'relativity' }, format: Format.text, parts: true }, { registry });
+
+    expect(invalidParts.errors).toEqual([{ path: '/parts', keyword: 'type', value: 'all', message: 'must be boolean or object' }]);
+    expect(invalidSelector.errors).toEqual([{ path: '/parts/body/title', keyword: 'type', value: [], message: 'must be boolean or string or number or object' }]);
+    expect(unknownSyntax.errors.map(error => error.path)).toEqual(['/uri/type', '/uri/id']);
+  });
+});
+
+describe('validateJsonSchema', () => {
+  it('should escape paths and resolve references', () => {
+    const schema = { type: 'object' as const, additionalProperties: { $ref: '#/$defs/count' }, $defs: { count: { type: 'integer' as const } } };
+
+    expect(validateJsonSchema(schema, { 'a/b': 1, 'c~d': 1.5 })).toEqual([{ path: '/c~0d', keyword: 'type', value: 1.5, message: 'must be integer' }]);
+    expect(validateJsonSchema(schema, { 'a/b': '1' })[0]?.path).toBe('/a~1b');
+    expect(() => validateJsonSchema({ $ref: '#/$defs/missing' }, 1)).toThrow('Can\'t resolve schema reference "#/$defs/missing".');
+  });
+});
@@ -0,0 +1,452 @@
+import {
+  Formats,
+  OloIdPropertyKind,
+  OloIdPropertyType,
+  OloJsonSchema,
+  OloJsonSchemaError,
+  OloJsonSchemaKind,
+  OloJsonSchemaType,
+  OloJsonValidationResult,
+  ReferenceType,
+} from '../types/index.ts';
+
+import { OloDescriptorParameter } from './olo-descriptor.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+import { OloReferenceParameter } from './olo-reference.ts';
+import { FocusMapKeyList, OloResourceParamter } from './olo-resource/index.ts';
+
+/**
+ * The serialized forms validated by {@link validateOloJson}, by {@link OloJsonSchemaKind}.
+ */
+export interface OloJsonValues {
+  descriptor: OloDescriptorParameter;
+  reference: OloReferenceParameter;
+  resource: OloResourceParamter;
+}
+
+/**
+ * Optional configuration of {@link getOloJsonSchema} and {@link validateOloJson}.
+ */
+export interface OloJsonSchemaOptions {
+  /**
+   * The `OloIdSyntax` registry whose syntaxes the `uri` needs to match. Defaults to the global registry.
+   *
+   * @optional
+   */
+  registry?: OloIdSyntax<string>;
+}
+
+/**
+ * Schemas of the values of the built-in {@link OloIdPropertyKind}s.
+ * Unlike the patterns used by `OloIdSyntax`, their patterns don't rely on RegExp flags.
+ */
+const PROPERTY_KIND_SCHEMAS: Record<OloIdPropertyKind, OloJsonSchema> = {
+  string: { type: ['string', 'number'] },
+  uuid: { type: 'string', pattern: '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$' },
+  integer: { type: ['integer', 'string'], pattern: '^[+-]?\\d+$' },
+  slug: { type: 'string', pattern: '^[a-z0-9]+(?:-[a-z0-9]+)*$' },
+  emailLocalPart: {
+    type: 'string',
+    pattern: '^[A-Za-z0-9!#$%&\'*+/=?^_`{|}~-]+(?:\\.[A-Za-z0-9!#$%&\'*+/=?^_`{|}~-]+)*$',
+    maxLength: 64,
+  },
+};
+
+/**
+ * The titles of the generated schemas.
+ */
+const SCHEMA_TITLES: Record<OloJsonSchemaKind, string> = {
+  descriptor: 'OloDescriptor',
+  reference: 'OloReference',
+  resource: 'OloResource',
+};
+
+/**
+ * The RegExp flags that don't change which values a pattern matches and can be left out of JSON Schema patterns.
+ */
+const IGNORABLE_FLAGS = ['d', 'g', 'u'];
+
+/**
+ * Converts a declared pattern into a JSON Schema pattern.
+ *
+ * @param pattern - The declared pattern.
+ * @returns The source of the pattern.
+ *
+ * @throws {TypeError} If the pattern uses flags that change its matching (e.g. `i`), as JSON Schema patterns can't have flags.
+ */
+const getPatternSource = (pattern: RegExp | string): string => {
+  if (typeof pattern === 'string') {
+    return pattern;
+  }
+
+  const flags = [...pattern.flags].filter(flag => !IGNORABLE_FLAGS.includes(flag));
+  if (flags.length > 0) {
+    throw new TypeError(`Pattern ${String(pattern)} can't be expressed in JSON Schema, as it uses the flags "${flags.join('')}".`);
+  }
+
+  return pattern.source;
+};
+
+/**
+ * Creates the schema of a single identifier value from its declared type.
+ *
+ * @param propertyType - The declared type of the property, if any.
+ * @returns The schema of the value.
+ *
+ * @throws {TypeError} If the declared pattern uses flags that can't be expressed in JSON Schema.
+ */
+const getValueSchema = (propertyType: OloIdPropertyType | OloIdPropertyKind | undefined): OloJsonSchema => {
+  const { type = 'string', enum: values, pattern, minLength, maxLength } = typeof propertyType === 'string'
+    ? { type: propertyType }
+    : propertyType ?? {};
+
+  const schema: OloJsonSchema = { ...PROPERTY_KIND_SCHEMAS[type] };
+
+  if (values) {
+    schema.enum = values;
+  }
+  if (pattern !== undefined) {
+    schema.allOf = [{ pattern: getPatternSource(pattern) }];
+  }
+  if (minLength !== undefined) {
+    schema.minLength = minLength;
+  }
+  if (maxLength !== undefined) {
+    schema.maxLength = Math.min(maxLength, schema.maxLength ?? maxLength);
+  }
+
+  return schema;
+};
+
+/**
+ * Creates the schema of the `uri`: an object holding the values of at least one registered syntax.
+ *
+ * @param registry - The registry whose syntaxes are used.
+ * @returns The schema of the `uri`.
+ */
+const getUriSchema = (registry: OloIdSyntax<string>): OloJsonSchema => {
+  const branches = registry.getDefinitions().map((definition): OloJsonSchema => {
+    const propertyTypes = definition.syntax.map(property => [property, definition.properties?.[property]] as const);
+
+    return {
+      properties: Object.fromEntries(propertyTypes.map(([property, propertyType]) => [property, getValueSchema(propertyType)])),
+      required: propertyTypes
+        .filter(([, propertyType]) => typeof propertyType !== 'object' || !propertyType.optional)
+        .map(([property]) => property),
+    };
+  });
+
+  return {
+    type: 'object',
+    additionalProperties: { type: ['string', 'number'] },
+    minProperties: 1,
+    ...(branches.length > 0 ? { anyOf: branches } : {}),
+  };
+};
+
+/**
+ * Generates the JSON Schema (draft 2020-12) of the serialized form of {@link OloDescriptor}, {@link OloReference}
+ * or {@link OloResource}, i.e. of the output of their `toJSON()`.
+ *
+ * The `uri` needs to hold the values of at least one syntax of the registry, typed as declared in its `properties`.
+ * As the registry may change, the schema reflects the syntaxes registered at the time it's generated.
+ *
+ * @param kind - The serialized form to generate the schema for.
+ * @param options - Optional configuration.
+ * @param options.registry - The registry whose syntaxes the `uri` needs to match. Defaults to the global registry.
+ *
+ * @returns The schema.
+ *
+ * @throws {TypeError} If a declared pattern uses RegExp flags that change its matching (e.g. `/^[a-z]+$/i`),
+ *   as JSON Schema patterns can't have flags. Declare such patterns without flags, e.g. `/^[A-Za-z]+$/`.
+ *
+ * @example
+ * new OloIdSyntax().setSyntaxes([{ syntax: ['type', 'id'], properties: { id: 'uuid' } }]);
+ *
+ * const schema = getOloJsonSchema('reference');
+ * console.log(schema.required); // Output: ['uri', 'format', 'parts', 'type', 'label']
+ * console.log(JSON.stringify(schema.$defs?.['uri']?.anyOf));
+ * // Output: '[{"properties":{"type":{"type":["string","number"]},"id":{"type":"string","pattern":"..."}},"required":["type","id"]}]'
+ */
+export const getOloJsonSchema = (kind: OloJsonSchemaKind, { registry }: OloJsonSchemaOptions = {}): OloJsonSchema => {
+  const properties: { [property: string]: OloJsonSchema } = {
+    uri: { $ref: '#/$defs/uri' },
+    format: { enum: Formats },
+    parts: { anyOf: [{ type: 'boolean' }, { $ref: '#/$defs/selector' }] },
+  };
+  const required = ['uri', 'format', 'parts'];
+  const $defs: { [name: string]: OloJsonSchema } = {
+    uri: getUriSchema(registry ?? new OloIdSyntax()),
+    selector: {
+      type: 'object',
+      additionalProperties: { anyOf: [{ type: ['boolean', 'string', 'number'] }, { $ref: '#/$defs/selector' }] },
+    },
+  };
+
+  if (kind !== 'descriptor') {
+    properties['type'] = { enum: Object.values(ReferenceType) };
+    properties['label'] = { type: 'string' };
+    required.push('type', 'label');
+  }
+
+  if (kind === 'resource') {
+    const dimension: OloJsonSchema = { type: 'integer', minimum: 0 };
+
+    properties['filetype'] = { type: 'string', pattern: '^[A-Za-z0-9!#$&^_.+-]+/[A-Za-z0-9!#$&^_.+-]+$' };
+    properties['ratio'] = { type: 'array', prefixItems: [{ type: 'number', minimum: 0 }, { type: 'number', minimum: 0 }], items: false, minItems: 2 };
+    properties['focus'] = {
+      anyOf: [
+        { $ref: '#/$defs/focusPoint' },
+        {
+          type: 'object',
+          properties: Object.fromEntries(FocusMapKeyList.map(key => [key, { $ref: '#/$defs/focusPoint' }])),
+          additionalProperties: false,
+        },
+      ],
+    };
+    properties['size'] = dimension;
+    properties['width'] = dimension;
+    properties['height'] = dimension;
+    properties['framerate'] = { type: 'number', minimum: 0 };
+    properties['duration'] = { type: 'number', minimum: 0 };
+    properties['kompression'] = { type: 'string' };
+    properties['cropable'] = { type: 'boolean' };
+    required.push('cropable');
+
+    $defs['focusPoint'] = {
+      type: 'array',
+      prefixItems: [{ type: 'number', minimum: 0, maximum: 1 }, { type: 'number', minimum: 0, maximum: 1 }],
+      items: false,
+      minItems: 2,
+    };
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: SCHEMA_TITLES[kind],
+    type: 'object',
+    properties,
+    required,
+    $defs,
+  };
+};
+
+/**
+ * Escapes a property name to be used as a JSON Pointer token.
+ */
+const toPointerToken = (property: string | number): string =>
+  String(property).replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Checks whether a value is of a JSON type.
+ */
+const isOfJsonType = (value: unknown, type: OloJsonSchemaType): boolean => {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+/**
+ * Resolves a local reference (`#/$defs/...`) against the root schema.
+ *
+ * @throws {Error} If the reference can't be resolved.
+ */
+const resolveRef = (root: OloJsonSchema, ref: string): OloJsonSchema => {
+  const schema = ref
+    .replace(/^#\/?/, '')
+    .split('/')
+    .filter(token => token !== '')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, token) => (node as { [token: string]: unknown } | undefined)?.[token], root);
+
+  if (schema === undefined || typeof schema !== 'object') {
+    throw new Error(`Can't resolve schema reference "${ref}".`);
+  }
+
+  return schema as OloJsonSchema;
+};
+
+/**
+ * Validates a value against a (sub)schema.
+ *
+ * @param schema - The (sub)schema.
+ * @param value - The value to validate.
+ * @param path - The JSON Pointer to the value.
+ * @param root - The root schema, used to resolve references.
+ * @returns A list of the errors found, empty if the value matches.
+ */
+const validateNode = (schema: OloJsonSchema, value: unknown, path: string, root: OloJsonSchema): OloJsonSchemaError[] => {
+  if (schema.$ref !== undefined) {
+    return validateNode(resolveRef(root, schema.$ref), value, path, root);
+  }
+
+  const types = schema.type === undefined ? [] : [schema.type].flat();
+  if (types.length > 0 && !types.some(type => isOfJsonType(value, type))) {
+    return [{ path, keyword: 'type', value, message: `must be ${types.join(' or ')}` }];
+  }
+
+  const errors: OloJsonSchemaError[] = [];
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push({ path, keyword: 'const', value, message: `must be equal to ${JSON.stringify(schema.const)}` });
+  }
+  if (schema.enum && !schema.enum.some(item => item === value)) {
+    errors.push({ path, keyword: 'enum', value, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, keyword: 'pattern', value, message: `must match pattern "${schema.pattern}"` });
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, keyword: 'minLength', value, message: `must NOT have fewer than ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, keyword: 'maxLength', value, message: `must NOT have more than ${schema.maxLength} characters` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, keyword: 'minimum', value, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, keyword: 'maximum', value, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const prefixItems = schema.prefixItems ?? [];
+
+    prefixItems.forEach((itemSchema, index) => {
+      if (index < value.length) {
+        errors.push(...validateNode(itemSchema, value[index], `${path}/${index}`, root));
+      }
+    });
+    if (schema.items === false && value.length > prefixItems.length) {
+      errors.push({ path, keyword: 'items', value, message: `must NOT have more than ${prefixItems.length} items` });
+    } else if (typeof schema.items === 'object') {
+      const itemSchema = schema.items;
+      value.slice(prefixItems.length).forEach((item, index) => {
+        errors.push(...validateNode(itemSchema, item, `${path}/${index + prefixItems.length}`, root));
+      });
+    }
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, keyword: 'minItems', value, message: `must NOT have fewer than ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path, keyword: 'maxItems', value, message: `must NOT have more than ${schema.maxItems} items` });
+    }
+  }
+
+  if (isOfJsonType(value, 'object')) {
+    const entries = Object.entries(value as { [property: string]: unknown }).filter(([, propertyValue]) => propertyValue !== undefined);
+    const properties = schema.properties ?? {};
+
+    entries.forEach(([property, propertyValue]) => {
+      const propertyPath = `${path}/${toPointerToken(property)}`;
+      const propertySchema = properties[property];
+
+      if (propertySchema) {
+        errors.push(...validateNode(propertySchema, propertyValue, propertyPath, root));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: propertyPath, keyword: 'additionalProperties', value: propertyValue, message: 'must NOT be present' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateNode(schema.additionalProperties, propertyValue, propertyPath, root));
+      }
+    });
+
+    (schema.required ?? [])
+      .filter(property => (value as { [property: string]: unknown })[property] === undefined)
+      .forEach(property => errors.push({ path: `${path}/${toPointerToken(property)}`, keyword: 'required', message: 'is required' }));
+
+    if (schema.minProperties !== undefined && entries.length < schema.minProperties) {
+      errors.push({ path, keyword: 'minProperties', value, message: `must NOT have fewer than ${schema.minProperties} properties` });
+    }
+  }
+
+  (schema.allOf ?? []).forEach(subschema => errors.push(...validateNode(subschema, value, path, root)));
+
+  if (schema.anyOf) {
+    const branchErrors = schema.anyOf.map(subschema => validateNode(subschema, value, path, root));
+
+    if (!branchErrors.some(branch => branch.length === 0)) {
+      const typeMatches = branchErrors.filter(branch => branch.length !== 1 || branch[0]?.keyword !== 'type' || branch[0].path !== path);
+
+      errors.push(...(typeMatches.length === 0
+        ? [{ path, keyword: 'type', value, message: `must be ${branchErrors.map(branch => branch[0]?.message.replace(/^must be /, '')).join(' or ')}` }]
+        : typeMatches.reduce((closest, branch) => branch.length < closest.length ? branch : closest)
+      ));
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Validates a value against a JSON Schema, e.g. one generated by {@link getOloJsonSchema}.
+ *
+ * Only the keywords of {@link OloJsonSchema} are understood and only local references (`#/$defs/...`) are resolved.
+ * If a value matches none of the alternatives of an `anyOf`, the errors of the closest alternative of a matching type are reported.
+ *
+ * @param schema - The schema.
+ * @param value - The value to validate.
+ *
+ * @returns A list of the errors found, each pointing to the offending value. Empty if the value matches.
+ *
+ * @throws {Error} If the schema holds a reference that can't be resolved.
+ *
+ * @example
+ * const schema = getOloJsonSchema('resource');
+ *
+ * console.log(validateJsonSchema(schema, { uri: { id: 'ae123' }, format: 'IMAGE', parts: true, type: 'SELF', label: '', cropable: true, width: -1 }));
+ * // Output: [{ path: '/width', keyword: 'minimum', value: -1, message: 'must be >= 0' }]
+ */
+export const validateJsonSchema = (schema: OloJsonSchema, value: unknown): OloJsonSchemaError[] =>
+  validateNode(schema, value, '', schema);
+
+/**
+ * Validates the serialized form of an {@link OloDescriptor}, {@link OloReference} or {@link OloResource},
+ * e.g. a request body, against the schema generated by {@link getOloJsonSchema}.
+ *
+ * Unlike the typeguards (e.g. `isOloResource`), the result tells which values are wrong.
+ * To validate many values, generate the schema once and use {@link validateJsonSchema}.
+ *
+ * @param kind - The serialized form the value is expected to be.
+ * @param value - The value to validate.
+ * @param options - Optional configuration.
+ * @param options.registry - The registry whose syntaxes the `uri` needs to match. Defaults to the global registry.
+ *
+ * @returns An {@link OloJsonValidationResult} holding either the value or the errors found.
+ *
+ * @throws {TypeError} If a declared pattern uses RegExp flags that can't be expressed in JSON Schema (see {@link getOloJsonSchema}).
+ *
+ * @example
+ * const result = validateOloJson('reference', { uri: { id: 'ae123' }, format: Format.text, parts: true, type: 'INTERNAL', label: '' });
+ *
+ * if (!result.success) {
+ *   console.log(result.errors); // Output: [{ path: '/type', keyword: 'enum', value: 'INTERNAL', message: 'must be one of: SELF, ...' }]
+ * }
+ */
+export const validateOloJson = <Kind extends OloJsonSchemaKind>(
+  kind: Kind,
+  value: unknown,
+  options: OloJsonSchemaOptions = {},
+): OloJsonValidationResult<OloJsonValues[Kind]> => {
+  const errors = validateJsonSchema(getOloJsonSchema(kind, options), value);
+
+  return errors.length === 0
+    ? { success: true, value: value as OloJsonValues[Kind], errors: [] }
+    : { success: false, errors };
+};
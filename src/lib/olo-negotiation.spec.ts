@@ -0,0 +1,66 @@
+import { FORMAT_FALLBACKS, Format, ReferenceType, SELECTOR_WILDCARD } from '../types/index.ts';
+import { OloDescriptor } from './olo-descriptor.ts';
+import { OloIdSyntax } from './olo-id-syntax.ts';
+import { OloReference } from './olo-reference.ts';
+import { negotiateDescriptor } from './olo-negotiation.ts';
+
+describe('negotiateDescriptor', () => {
+  const requested = new OloDescriptor({ uri: { type: 'video', id: 'v1' }, format: Format.video, parts: { header: true, body: { title: true, text: true } } });
+
+  it('should serve the requested format and parts', () => {
+    const result = negotiateDescriptor(requested, { formats: [Format.video, Format.image] });
+
+    expect(result.servable).toBe(true);
+    expect(result.format).toBe(Format.video);
+    expect(result.fallback).toBe(false);
+    expect(result.dropped).toBe(false);
+    expect(result.descriptor).not.toBe(requested);
+    expect(result.descriptor?.isSame(requested)).toBe(true);
+    expect(result.descriptor?.parts).toEqual({ header: true, body: { title: true, text: true } });
+  });
+
+  it('should drop the parts that are not available', () => {
+    const result = negotiateDescriptor(requested, { formats: [Format.video], parts: { header: true, body: { title: true } } });
+
+    expect(result.descriptor?.parts).toEqual({ header: true, body: { title: true } });
+    expect(result.dropped).toEqual({ body: { text: true } });
+    expect(requested.parts).toEqual({ header: true, body: { title: true, text: true } });
+  });
+
+  it('should fall back to other formats', () => {
+    expect(FORMAT_FALLBACKS[Format.video]).toEqual([Format.image, Format.link]);
+    expect(negotiateDescriptor(requested, { formats: [Format.link, Format.image] }).format).toBe(Format.image);
+    expect(negotiateDescriptor(requested, { formats: [Format.link] }).format).toBe(Format.link);
+    expect(negotiateDescriptor(requested, { formats: [Format.link] }, { fallbacks: { [Format.video]: [Format.image] } }).servable).toBe(false);
+
+    const result = negotiateDescriptor(requested, { formats: [Format.image] });
+    expect(result.fallback).toBe(true);
+    expect(result.descriptor?.format).toBe(Format.image);
+  });
+
+  it('should report descriptors that can not be served', () => {
+    const result = negotiateDescriptor(requested, { formats: [Format.text], parts: { footer: true } });
+
+    expect(result).toEqual({ servable: false, dropped: { header: true, body: { title: true, text: true } } });
+  });
+
+  it('should keep the kind of the descriptor', () => {
+    const reference = new OloReference({ uri: { type: 'video', id: 'v1' }, format: Format.video, type: ReferenceType.external, label: 'Intro' });
+    const result = negotiateDescriptor(reference, { formats: [Format.video], parts: { header: true } });
+
+    expect(result.descriptor).toBeInstanceOf(OloReference);
+    expect(result.descriptor?.label).toBe('Intro');
+    expect(result.descriptor?.type).toBe(ReferenceType.external);
+    expect(result.descriptor?.parts).toEqual({ header: true });
+    expect(negotiateDescriptor(requested, { formats: [Format.video], parts: false }).descriptor?.parts).toEqual({ [SELECTOR_WILDCARD]: false });
+  });
+
+  it('should keep the registry and options of the descriptor', () => {
+    const registry = new OloIdSyntax([['type', 'id']], { scoped: true });
+    const scoped = new OloDescriptor({ uri: { type: 'video', id: 'v1' }, format: Format.video }, { registry, strict: true, rejectConflicts: true });
+    const result = negotiateDescriptor(scoped, { formats: [Format.image] });
+
+    expect(result.descriptor?.['oloIdSyntax']).toBe(registry);
+    expect(result.descriptor?.['options']).toEqual(expect.objectContaining({ registry, strict: true, rejectConflicts: true }));
+  });
+});
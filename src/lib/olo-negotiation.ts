@@ -0,0 +1,67 @@
+import {
+  FORMAT_FALLBACKS,
+  NormalizedSelector,
+  OloNegotiationOffer,
+  OloNegotiationOptions,
+  OloNegotiationResult,
+  SELECTOR_WILDCARD,
+  Selector,
+} from '../types/index.ts';
+
+import { OloDescriptor } from './olo-descriptor.ts';
+import { differenceSelectors, intersectSelectors } from './olo-selector.ts';
+
+/**
+ * Converts a normalized selector into the object form expected by `OloDescriptor.parts`:
+ * `true` becomes `{}`, `false` becomes `{ '*': false }`.
+ */
+const toPartsObject = (selector: NormalizedSelector): Selector<string, boolean> =>
+  typeof selector === 'object' ? selector : selector ? {} : { [SELECTOR_WILDCARD]: false };
+
+/**
+ * Compares a requested descriptor with what an entity can provide and determines what is actually served.
+ *
+ * - The format is the requested one if the entity offers it, otherwise the first offered fallback
+ *   (see {@link FORMAT_FALLBACKS}). If neither is offered, the descriptor can't be served.
+ * - The parts are the requested parts the entity offers (see {@link intersectSelectors}); the others are reported as dropped.
+ *
+ * The effective descriptor is a copy of the requested one (see {@link OloDescriptor.clone}), so references and resources
+ * keep their `type`, `label` and media fields, and the copy keeps the registry and options of the requested one.
+ * Its `parts` are normalized (see {@link normalizeSelector}).
+ *
+ * @param requested - The descriptor sent by the client.
+ * @param offer - The formats and parts the entity can provide.
+ * @param options - Optional configuration.
+ * @param options.fallbacks - The formats to fall back to per requested format. Defaults to {@link FORMAT_FALLBACKS}.
+ *
+ * @returns The {@link OloNegotiationResult}.
+ *
+ * @example
+ * const requested = new OloDescriptor({ uri: { type: 'video', id: 'v1' }, format: Format.video, parts: { header: true, body: true } });
+ * const result = negotiateDescriptor(requested, { formats: [Format.image, Format.link], parts: { header: true } });
+ *
+ * console.log(result.servable, result.format, result.fallback); // Output: true 'IMAGE' true
+ * console.log(result.descriptor?.parts); // Output: { header: true }
+ * console.log(result.dropped); // Output: { body: true }
+ */
+export const negotiateDescriptor = <Descriptor extends OloDescriptor>(
+  requested: Descriptor,
+  { formats, parts = true }: OloNegotiationOffer,
+  { fallbacks = FORMAT_FALLBACKS }: OloNegotiationOptions = {},
+): OloNegotiationResult<Descriptor> => {
+  const dropped = differenceSelectors(requested.parts, parts);
+  const fallback = formats.includes(requested.format)
+    ? undefined
+    : (fallbacks[requested.format] ?? []).find(format => formats.includes(format));
+  const format = fallback ?? formats.find(format => format === requested.format);
+
+  if (format === undefined) {
+    return { servable: false, dropped };
+  }
+
+  const descriptor = requested.clone();
+  descriptor.format = format;
+  descriptor.parts = toPartsObject(intersectSelectors(requested.parts, parts));
+
+  return { servable: true, descriptor, format, fallback: fallback !== undefined, dropped };
+};
@@ -1,5 +1,5 @@
 import { GetListTypeGuard } from 'olo-platform';
-import { OloIdSchema, ReferenceType, isReferenceType } from '../types/index.ts';
+import { OloIdOptions, OloIdSchema, ReferenceType, isReferenceType } from '../types/index.ts';
 import { OloDescriptor, OloDescriptorParameter, isOloDescriptor } from './olo-descriptor.ts';
 import { OloIdMap } from './olo-id-set.ts';
 
@@ -57,6 +57,7 @@ export class OloReference<
    * @param reference - The source data for the reference. Can be:
    *   - An object containing `uri` (as `OloUri`), and optional `format`, `parts`, `type`, and `label`.
    *   - Another `OloReference` instance (copy constructor pattern).
+   * @param options - Optional configuration passed on to the `OloDescriptor` constructor (e.g. a scoped `registry`).
    *
    * @example
    * // Create a self-reference with a label
@@ -75,14 +76,17 @@ export class OloReference<
    * // Copy from another reference
    * const ref3 = new OloReference(ref1);
    */
-  constructor (reference: OloReferenceParameter<IdentifierProperties, IdentifierValue> | OloReference) {
+  constructor (
+    reference: OloReferenceParameter<IdentifierProperties, IdentifierValue> | OloReference,
+    options: OloIdOptions<[...IdentifierProperties[number]], '/'> = {},
+  ) {
     super({
       uri: isOloReference(reference)
         ? reference['uri'] as unknown as OloIdMap<IdentifierProperties, IdentifierValue>
         : reference.uri,
       format: reference.format,
       parts: reference.parts,
-    });
+    }, options);
 
     this.type = reference.type ?? this.type;
     this.label = reference.label ?? this.label;
@@ -1,4 +1,5 @@
-import { Format, OloUri, ReferenceType } from '../../types/index.ts';
+import { Format, OloResourceIssueCode, OloUri, ReferenceType } from '../../types/index.ts';
+import { OloFormatRegistry } from '../olo-format-registry.ts';
 import { OloResource, isOloResource, isOloResourceList } from './olo-resource.ts';
 
 import { FocusMap, } from './focus-map.js';
@@ -172,4 +173,54 @@ describe('OloResource', () => {
       cropable: true,
     });
   });
+
+  it('should infer the filetype from the format', () => {
+    expect(new OloResource({ uri: testUri, format: Format.image }).getFiletype()).toBe('image/jpeg');
+    expect(new OloResource({ uri: testUri, format: Format.image }).getFiletype({ filename: 'logo.png' })).toBe('image/png');
+    expect(new OloResource({ uri: testUri, format: Format.image, filetype: 'image/webp' }).getFiletype({ filename: 'logo.png' })).toBe('image/webp');
+    expect(new OloResource({ uri: testUri, format: Format.person }).getFiletype()).toBeUndefined();
+  });
+
+  it('should validate the metadata against the format', () => {
+    expect(new OloResource({ uri: testUri, format: Format.image, filetype: 'image/png', width: 800, height: 600 }).validateFormat()).toEqual([]);
+    expect(new OloResource({ uri: testUri, format: Format.image, filetype: 'video/mp4', duration: 60 }).validateFormat()).toEqual([
+      expect.objectContaining({ code: OloResourceIssueCode.invalidFiletype, property: 'filetype', value: 'video/mp4' }),
+      expect.objectContaining({ code: OloResourceIssueCode.inapplicableField, property: 'duration', value: 60 }),
+    ]);
+    expect(new OloResource({ uri: testUri, format: Format.person, filetype: 'image/png' }).validateFormat()).toEqual([
+      expect.objectContaining({ code: OloResourceIssueCode.inapplicableField, property: 'filetype' }),
+    ]);
+  });
+
+  it('should keep a given cropable value', () => {
+    const resource = new OloResource({ uri: testUri, format: Format.image, cropable: false });
+
+    expect(resource.cropable).toBe(false);
+    expect(new OloResource(resource).cropable).toBe(false);
+    expect(resource.toJSON().cropable).toBe(false);
+  });
+
+  it('should report cropable for formats it does not apply to only if it was given', () => {
+    const audio = new OloResource({ uri: testUri, format: Format.audio, duration: 60 });
+
+    expect(audio.validateFormat()).toEqual([]);
+    expect(new OloResource(audio).validateFormat()).toEqual([]);
+    expect(new OloResource({ uri: testUri, format: Format.audio, cropable: false }).validateFormat()).toEqual([
+      expect.objectContaining({ code: OloResourceIssueCode.inapplicableField, property: 'cropable', value: false }),
+    ]);
+    expect(new OloResource({ uri: testUri, format: Format.document, cropable: true }).validateFormat()).toEqual([
+      expect.objectContaining({ code: OloResourceIssueCode.inapplicableField, property: 'cropable', value: true }),
+    ]);
+    expect(new OloResource({ uri: testUri, format: Format.image, cropable: false }).validateFormat()).toEqual([]);
+  });
+
+  it('should validate against a given format registry', () => {
+    const formats = new OloFormatRegistry([{ format: 'MODEL', mimeTypes: ['model/gltf-binary'], extensions: {}, fields: ['filetype'] }], { scoped: true });
+    const resource = new OloResource({ uri: testUri, format: 'MODEL' as Format, filetype: 'model/gltf-binary', size: 1024 });
+
+    expect(resource.validateFormat()).toEqual([]);
+    expect(resource.validateFormat(formats)).toEqual([
+      expect.objectContaining({ code: OloResourceIssueCode.inapplicableField, property: 'size' }),
+    ]);
+  });
 });
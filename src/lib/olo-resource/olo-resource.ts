@@ -1,5 +1,6 @@
 import { GetListTypeGuard } from 'olo-platform';
-import { OloIdSchema } from '../../types/index.ts';
+import { OloIdOptions, OloIdSchema, OloResourceField, OloResourceIssue, OloResourceIssueCode } from '../../types/index.ts';
+import { OloFormatRegistry } from '../olo-format-registry.ts';
 import { OloReference, OloReferenceParameter, isOloReference } from '../olo-reference.ts';
 
 import { FocusMap } from './focus-map.ts';
@@ -17,6 +18,15 @@ export interface OloResourceParamter<IdentifierProperties extends string[][] = s
   cropable?: boolean;
 }
 
+/**
+ * The resource fields checked by `OloResource.validateFormat` against the fields applying to the format.
+ *
+ * @private
+ */
+const RESOURCE_FIELDS: OloResourceField[] = [
+  'filetype', 'ratio', 'focus', 'size', 'width', 'height', 'framerate', 'duration', 'kompression', 'cropable',
+];
+
 /**
  * Represents a resource, typically a digital asset like an image or video, extending the {@link OloReference} class.
  *
@@ -127,6 +137,14 @@ export class OloResource<IdentifierProperties extends string[][] = string[][]> e
    */
   public cropable: boolean = true;
 
+  /**
+   * Whether `cropable` was given when the resource was created, rather than defaulted.
+   * Only given values are checked by `validate()`.
+   *
+   * @private
+   */
+  private cropableGiven: boolean = false;
+
   /**
    * Creates an instance of OloResource.
    *
@@ -138,9 +156,13 @@ export class OloResource<IdentifierProperties extends string[][] = string[][]> e
    * @param resource - The source data for the resource. Can be:
    *   - An object containing `uri` (as `OloUri`) and any optional properties from `OloReference` and `OloResource`.
    *   - Another `OloResource` instance (copy constructor pattern).
+   * @param options - Optional configuration passed on to the `OloReference` constructor (e.g. a scoped `registry`).
    */
-  constructor(resource: OloResourceParamter<IdentifierProperties> | OloResource) {
-    super(resource);
+  constructor(
+    resource: OloResourceParamter<IdentifierProperties> | OloResource,
+    options: OloIdOptions<[...IdentifierProperties[number]], '/'> = {},
+  ) {
+    super(resource, options);
 
     if (resource.filetype) {
       this.filetype = resource.filetype;
@@ -169,8 +191,9 @@ export class OloResource<IdentifierProperties extends string[][] = string[][]> e
     if (resource.kompression) {
       this.kompression = resource.kompression;
     }
-    if (resource.cropable) {
+    if (resource.cropable !== undefined) {
       this.cropable = resource.cropable;
+      this.cropableGiven = resource instanceof OloResource ? resource['cropableGiven'] : true;
     }
   }
 
@@ -242,6 +265,72 @@ export class OloResource<IdentifierProperties extends string[][] = string[][]> e
 
     return json as OloIdSchema<OloResourceParamter<IdentifierProperties>, IdentifierProperties>;
   }
+
+  /**
+   * Returns the MIME type of the resource: its `filetype`, or else the one inferred from its format
+   * (see {@link OloFormatRegistry.inferFiletype}).
+   *
+   * @param options - Optional configuration.
+   * @param options.filename - The file name, path or URL of the asset, to infer the MIME type from its extension.
+   * @param options.formats - The format registry to infer the MIME type with. Defaults to the global registry.
+   *
+   * @returns The MIME type, or `undefined` if the resource has none and its format declares none.
+   *
+   * @example
+   * const resource = new OloResource({ uri: { type: 'image', id: 'img001' }, format: Format.image });
+   * console.log(resource.getFiletype()); // Output: 'image/jpeg'
+   * console.log(resource.getFiletype({ filename: 'logo.png' })); // Output: 'image/png'
+   */
+  getFiletype({ filename, formats = new OloFormatRegistry() }: { filename?: string; formats?: OloFormatRegistry } = {}): string | undefined {
+    return this.filetype ?? formats.inferFiletype(this.format, filename);
+  }
+
+  /**
+   * Checks the resource metadata against its format (see {@link OloFormatRegistry}).
+   * Resources of unregistered formats are not checked. The identifiers are checked by `validate()`.
+   *
+   * @param formats - The format registry to check against. Defaults to the global registry.
+   *
+   * @returns An issue with code `INVALID_FILETYPE` if the `filetype` isn't a MIME type of the format,
+   *   followed by one with code `INAPPLICABLE_FIELD` for each set field not applying to the format.
+   *   `cropable` is only reported if it was given when the resource was created, as it defaults to `true`.
+   *
+   * @example
+   * const resource = new OloResource({ uri: { type: 'image', id: 'img001' }, format: Format.image, filetype: 'video/mp4', duration: 60 });
+   * console.log(resource.validateFormat().map(issue => issue.code)); // Output: ['INVALID_FILETYPE', 'INAPPLICABLE_FIELD']
+   */
+  validateFormat(formats: OloFormatRegistry = new OloFormatRegistry()): OloResourceIssue[] {
+    const issues: OloResourceIssue[] = [];
+    const definition = formats.getDefinition(this.format);
+    if (!definition) {
+      return issues;
+    }
+
+    if (
+      this.filetype !== undefined
+      && definition.fields.includes('filetype')
+      && !formats.isFiletypeOf(this.filetype, this.format)
+    ) {
+      issues.push({
+        code: OloResourceIssueCode.invalidFiletype,
+        property: 'filetype',
+        value: this.filetype,
+        message: `Filetype "${this.filetype}" is not a MIME type of format ${this.format}.`,
+      });
+    }
+
+    RESOURCE_FIELDS
+      .filter(field => !definition.fields.includes(field))
+      .filter(field => field === 'cropable' ? this.cropableGiven : this[field] !== undefined)
+      .forEach(field => issues.push({
+        code: OloResourceIssueCode.inapplicableField,
+        property: field,
+        value: this[field],
+        message: `Field "${field}" doesn't apply to format ${this.format}.`,
+      }));
+
+    return issues;
+  }
 }
 
 /**
@@ -0,0 +1,49 @@
+import { parseGraphQLSelection, parseSelector, selectorToGraphQL, selectorToString } from './olo-selector-text.ts';
+
+describe('Selector text form', () => {
+  const selector = { header: true, body: { title: true, author: { name: true } }, footer: false };
+
+  it('should parse the compact text form', () => {
+    expect(parseSelector('header,body(title,author(name)),-footer')).toEqual(selector);
+    expect(parseSelector(' header , body ( title ) ')).toEqual({ header: true, body: { title: true } });
+    expect(parseSelector('comments:10,sort:date,body()')).toEqual({ comments: 10, sort: 'date', body: {} });
+    expect(parseSelector('')).toEqual({});
+  });
+
+  it('should throw on invalid text forms', () => {
+    expect(() => parseSelector('header,')).toThrow(SyntaxError);
+    expect(() => parseSelector('body(title')).toThrow('Unexpected end of "body(title".');
+    expect(() => parseSelector('header)')).toThrow('Unexpected ")" at position 6 of "header)".');
+    expect(() => parseSelector('-body(title)')).toThrow(SyntaxError);
+    expect(() => parseSelector('header,header')).toThrow('Duplicate part "header" at position 7 of "header,header".');
+  });
+
+  it('should print the compact text form', () => {
+    expect(selectorToString(selector)).toBe('header,body(title,author(name)),-footer');
+    expect(selectorToString({ comments: 10, sort: 'date', body: {} })).toBe('comments:10,sort:date,body()');
+    expect(selectorToString(true)).toBe('*');
+    expect(selectorToString(false)).toBe('-*');
+    expect(parseSelector(selectorToString(selector))).toEqual(selector);
+    expect(() => selectorToString({ 'a,b': true })).toThrow(TypeError);
+    expect(() => selectorToString({ sort: 'date,desc' })).toThrow(TypeError);
+  });
+
+  it('should parse GraphQL selection sets', () => {
+    expect(parseGraphQLSelection('{ header body { title author { name } } }')).toEqual({ header: true, body: { title: true, author: { name: true } } });
+    expect(parseGraphQLSelection(`
+      header, # the header
+      lead: body(format: "(short)") @include(if: $lead) { title }
+      body { text }
+    `)).toEqual({ header: true, body: { title: true, text: true } });
+    expect(() => parseGraphQLSelection('{ header ...Teaser }')).toThrow('Fragments are not supported at position 9 of "{ header ...Teaser }".');
+    expect(() => parseGraphQLSelection('{ header')).toThrow(SyntaxError);
+  });
+
+  it('should print GraphQL selection sets', () => {
+    expect(selectorToGraphQL(selector)).toBe('{ header body { title author { name } } }');
+    expect(selectorToGraphQL({ header: 1, body: {} })).toBe('{ header body }');
+    expect(() => selectorToGraphQL({ footer: false })).toThrow(TypeError);
+    expect(() => selectorToGraphQL({ body: { comments: false } })).toThrow(TypeError);
+    expect(() => selectorToGraphQL({ 'first-name': true })).toThrow('Part "first-name" is not a valid GraphQL field name.');
+  });
+});
@@ -0,0 +1,347 @@
+import { AnySelector, NormalizedSelector, SELECTOR_WILDCARD, Selector } from '../types/index.ts';
+
+import { normalizeSelector } from './olo-selector.ts';
+
+/**
+ * The names of parts that can be written in the compact text form.
+ */
+const TEXT_NAME = /^[^,():\s-][^,():\s]*$/;
+
+/**
+ * The setting values that can be written in the compact text form.
+ */
+const TEXT_VALUE = /^[^,():\s]+$/;
+
+/**
+ * The names of fields in GraphQL.
+ */
+const GRAPHQL_NAME = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+/**
+ * Walks through a text character by character, as base of the parsers.
+ */
+class SelectorTextReader {
+  /**
+   * The position of the next character.
+   */
+  public position = 0;
+
+  /**
+   * @param text - The text to read.
+   * @param ignored - The characters skipped between tokens. `#` starts a comment up to the end of the line.
+   */
+  constructor(public readonly text: string, private ignored: RegExp) {}
+
+  /**
+   * Skips ignored characters (e.g. whitespace) and returns the next character without consuming it.
+   */
+  peek(): string | undefined {
+    while (this.position < this.text.length && this.ignored.test(this.text.charAt(this.position))) {
+      this.position += this.text.charAt(this.position) === '#' ? this.text.slice(this.position).search(/\n|$/) : 1;
+    }
+    return this.position < this.text.length ? this.text.charAt(this.position) : undefined;
+  }
+
+  /**
+   * Consumes the next character if it's the expected one.
+   */
+  accept(char: string): boolean {
+    if (this.peek() !== char) {
+      return false;
+    }
+    this.position += 1;
+    return true;
+  }
+
+  /**
+   * Consumes the next character, which needs to be the expected one.
+   *
+   * @throws {SyntaxError} If the next character is another one.
+   */
+  expect(char: string): void {
+    if (!this.accept(char)) {
+      this.fail();
+    }
+  }
+
+  /**
+   * Consumes the longest run of characters matching a pattern.
+   */
+  read(pattern: RegExp): string {
+    this.peek();
+    const start = this.position;
+    while (this.position < this.text.length && pattern.test(this.text.charAt(this.position))) {
+      this.position += 1;
+    }
+    return this.text.slice(start, this.position);
+  }
+
+  /**
+   * Consumes balanced parentheses, e.g. the arguments of a GraphQL field, including quoted strings holding parentheses.
+   *
+   * @throws {SyntaxError} If the parentheses aren't closed.
+   */
+  skipParentheses(): void {
+    const start = this.position;
+    let depth = 0;
+    let quoted = false;
+
+    do {
+      if (this.position >= this.text.length) {
+        this.position = start;
+        this.fail();
+      }
+
+      const char = this.text.charAt(this.position);
+      if (quoted) {
+        quoted = char !== '"' || this.text.charAt(this.position - 1) === '\\';
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === '(') {
+        depth += 1;
+      } else if (char === ')') {
+        depth -= 1;
+      }
+      this.position += 1;
+    } while (depth > 0 || quoted);
+  }
+
+  /**
+   * Throws a SyntaxError pointing to the next character.
+   *
+   * @param message - Describes the problem. Defaults to a message naming the unexpected character.
+   *
+   * @throws {SyntaxError} Always.
+   */
+  fail(message?: string): never {
+    const char = this.peek();
+    throw new SyntaxError(message !== undefined
+      ? `${message} at position ${this.position} of "${this.text}".`
+      : char === undefined
+        ? `Unexpected end of "${this.text}".`
+        : `Unexpected "${char}" at position ${this.position} of "${this.text}".`);
+  }
+}
+
+/**
+ * Parses a comma-separated list of parts of the compact text form, up to the closing parenthesis or the end.
+ */
+const parseTextList = (reader: SelectorTextReader): Selector<string, boolean | string | number> => {
+  const selector: Selector<string, boolean | string | number> = {};
+
+  if (reader.peek() === undefined || reader.peek() === ')') {
+    return selector;
+  }
+
+  do {
+    const excluded = reader.accept('-');
+    const start = reader.position;
+    const part = reader.read(/[^,():\s]/);
+
+    if (part === '' || part.startsWith('-')) {
+      reader.fail();
+    }
+    if (selector[part] !== undefined) {
+      reader.position = start;
+      reader.fail(`Duplicate part "${part}"`);
+    }
+
+    if (!excluded && reader.accept('(')) {
+      selector[part] = parseTextList(reader);
+      reader.expect(')');
+    } else if (!excluded && reader.accept(':')) {
+      const value = reader.read(/[^,():\s]/);
+      if (value === '') {
+        reader.fail();
+      }
+      selector[part] = /^[+-]?\d+(?:\.\d+)?$/.test(value) ? Number(value) : value;
+    } else {
+      selector[part] = !excluded;
+    }
+  } while (reader.accept(','));
+
+  return selector;
+};
+
+/**
+ * Parses the compact text form of a selector, e.g. `header,body(title,author(name)),-footer`.
+ *
+ * - Parts are separated by commas, whitespace between tokens is ignored.
+ * - `name` includes a part, `-name` excludes it.
+ * - `name(...)` applies a nested selector to a part.
+ * - `name:value` sets a part to a string or number setting, e.g. `comments:10`.
+ *
+ * @param text - The text form, e.g. taken from a URL parameter. The empty text parses to `{}`, selecting everything.
+ *
+ * @returns The selector. Settings are kept as written, so the selector isn't normalized.
+ *
+ * @throws {SyntaxError} If the text isn't a valid selector.
+ *
+ * @example
+ * console.log(parseSelector('header,body(title,author(name)),-footer'));
+ * // Output: { header: true, body: { title: true, author: { name: true } }, footer: false }
+ *
+ * console.log(parseSelector('comments:10')); // Output: { comments: 10 }
+ */
+export const parseSelector = (text: string): Selector<string, boolean | string | number> => {
+  const reader = new SelectorTextReader(text, /\s/);
+  const selector = parseTextList(reader);
+
+  if (reader.peek() !== undefined) {
+    reader.fail();
+  }
+
+  return selector;
+};
+
+/**
+ * Prints a selector in the compact text form parsed by {@link parseSelector}.
+ *
+ * @param selector - The selector, as boolean or object. `true` is printed as `*`, `false` as `-*`.
+ *
+ * @returns The text form.
+ *
+ * @throws {TypeError} If a part name or setting can't be written in the text form (e.g. contains a comma).
+ *
+ * @example
+ * console.log(selectorToString({ header: true, body: { title: true, author: { name: true } }, footer: false }));
+ * // Output: "header,body(title,author(name)),-footer"
+ */
+export const selectorToString = (selector: AnySelector): string => {
+  if (typeof selector === 'boolean') {
+    return selector ? SELECTOR_WILDCARD : `-${SELECTOR_WILDCARD}`;
+  }
+
+  return Object.entries(selector)
+    .filter((entry): entry is [string, AnySelector | string | number] => entry[1] !== undefined)
+    .map(([part, setting]) => {
+      if (!TEXT_NAME.test(part)) {
+        throw new TypeError(`Part "${part}" can't be written in the text form of a selector.`);
+      }
+      if (typeof setting === 'boolean') {
+        return setting ? part : `-${part}`;
+      }
+      if (typeof setting === 'object') {
+        return `${part}(${selectorToString(setting)})`;
+      }
+      if (!TEXT_VALUE.test(String(setting))) {
+        throw new TypeError(`Setting "${setting}" of part "${part}" can't be written in the text form of a selector.`);
+      }
+      return `${part}:${setting}`;
+    })
+    .join(',');
+};
+
+/**
+ * Parses the selections of a GraphQL selection set, up to the closing brace or the end.
+ */
+const parseGraphQLSelections = (reader: SelectorTextReader): Selector => {
+  const selector: Selector = {};
+
+  while (reader.peek() !== undefined && reader.peek() !== '}') {
+    if (reader.peek() === '.') {
+      reader.fail('Fragments are not supported');
+    }
+
+    let field = reader.read(/[_0-9A-Za-z]/);
+    if (!GRAPHQL_NAME.test(field)) {
+      reader.fail();
+    }
+    if (reader.accept(':')) {
+      field = reader.read(/[_0-9A-Za-z]/);
+      if (!GRAPHQL_NAME.test(field)) {
+        reader.fail();
+      }
+    }
+    if (reader.peek() === '(') {
+      reader.skipParentheses();
+    }
+    while (reader.accept('@')) {
+      reader.read(/[_0-9A-Za-z]/);
+      if (reader.peek() === '(') {
+        reader.skipParentheses();
+      }
+    }
+
+    const setting = reader.accept('{') ? parseGraphQLSelections(reader) : true;
+    if (setting !== true) {
+      reader.expect('}');
+    }
+
+    const existing = selector[field];
+    selector[field] = typeof existing === 'object' && typeof setting === 'object'
+      ? { ...existing, ...setting }
+      : existing ?? setting;
+  }
+
+  return selector;
+};
+
+/**
+ * Parses a GraphQL selection set, e.g. `{ header body { title author { name } } }`, into a selector.
+ *
+ * Fields with a selection set become nested selectors, all other fields are included. Aliases select the aliased field,
+ * arguments, directives, commas and comments are ignored. As GraphQL lists the selected fields only, the selector never excludes parts.
+ *
+ * @param text - The selection set. The outer braces are optional.
+ *
+ * @returns The selector.
+ *
+ * @throws {SyntaxError} If the text isn't a valid selection set or uses fragments.
+ *
+ * @example
+ * console.log(parseGraphQLSelection('{ header body { title author(first: 1) { name } } }'));
+ * // Output: { header: true, body: { title: true, author: { name: true } } }
+ */
+export const parseGraphQLSelection = (text: string): Selector => {
+  const reader = new SelectorTextReader(text, /[\s,#]/);
+  const braced = reader.accept('{');
+  const selector = parseGraphQLSelections(reader);
+
+  if (braced) {
+    reader.expect('}');
+  }
+  if (reader.peek() !== undefined) {
+    reader.fail();
+  }
+
+  return selector;
+};
+
+/**
+ * Prints the selections of a normalized selector, which needs to list its selected parts.
+ */
+const printGraphQLSelections = (selector: NormalizedSelector): string => {
+  if (typeof selector === 'boolean' || selector[SELECTOR_WILDCARD] !== undefined || Object.values(selector).includes(false)) {
+    throw new TypeError('Only selectors listing their selected parts can be printed as GraphQL selection set.');
+  }
+
+  return Object.entries(selector)
+    .map(([field, setting]) => {
+      if (!GRAPHQL_NAME.test(field)) {
+        throw new TypeError(`Part "${field}" is not a valid GraphQL field name.`);
+      }
+      return typeof setting === 'object' ? `${field} { ${printGraphQLSelections(setting)} }` : field;
+    })
+    .join(' ');
+};
+
+/**
+ * Prints a selector as GraphQL selection set, parsed by {@link parseGraphQLSelection}.
+ *
+ * The selector is normalized first (see {@link normalizeSelector}), so settings are interpreted as included or excluded.
+ * Nested selectors selecting all parts of a field are printed as the field only.
+ *
+ * @param selector - The selector, as boolean or object.
+ *
+ * @returns The selection set, in braces.
+ *
+ * @throws {TypeError} If the selector doesn't list its selected parts (e.g. `true` or `{ footer: false }`),
+ *   as GraphQL can't express exclusions, or if a part isn't a valid GraphQL field name.
+ *
+ * @example
+ * console.log(selectorToGraphQL({ header: 1, body: { title: true, author: { name: true } }, footer: 0 }));
+ * // Output: "{ header body { title author { name } } }"
+ */
+export const selectorToGraphQL = (selector: AnySelector): string =>
+  `{ ${printGraphQLSelections(normalizeSelector(selector))} }`;
@@ -0,0 +1,119 @@
+import { SELECTOR_WILDCARD, SelectorPath } from '../types/index.ts';
+import {
+  differenceSelectors,
+  intersectSelectors,
+  isIncludedSetting,
+  isSelector,
+  isSelectorList,
+  normalizeSelector,
+  project,
+  selectorIncludes,
+  unionSelectors,
+} from './olo-selector.ts';
+
+describe('Selector', () => {
+  it('should check settings and selectors', () => {
+    expect([true, 1, 'yes', 'asc'].every(isIncludedSetting)).toBe(true);
+    expect([false, 0, '', '0', 'false'].some(isIncludedSetting)).toBe(false);
+    expect(isSelector({ header: true, body: { title: 1 } })).toBe(true);
+    expect(isSelector({ header: [] })).toBe(false);
+    expect(isSelector(true)).toBe(false);
+    expect(isSelectorList([{}, { body: 'all' }])).toBe(true);
+  });
+
+  it('should normalize selectors', () => {
+    expect(normalizeSelector({})).toBe(true);
+    expect(normalizeSelector(false)).toBe(false);
+    expect(normalizeSelector({ header: 1, body: { title: 'yes' }, footer: 0 })).toEqual({ header: true, body: { title: true } });
+    expect(normalizeSelector({ body: {}, footer: { links: { url: false, label: false } } })).toEqual({ body: true, footer: { links: { url: false, label: false } } });
+    expect(normalizeSelector({ header: false, footer: false })).toEqual({ header: false, footer: false });
+    expect(normalizeSelector({ [SELECTOR_WILDCARD]: true, body: true })).toBe(true);
+    expect(normalizeSelector({ [SELECTOR_WILDCARD]: false, body: false })).toBe(false);
+  });
+
+  it('should create unions', () => {
+    expect(unionSelectors()).toBe(false);
+    expect(unionSelectors({ header: true }, { body: { title: true } })).toEqual({ header: true, body: { title: true } });
+    expect(unionSelectors({ body: { title: true } }, { body: { text: true } })).toEqual({ body: { title: true, text: true } });
+    expect(unionSelectors({ footer: false }, { header: false })).toBe(true);
+    expect(unionSelectors({ footer: false }, { footer: { links: true } })).toEqual({ [SELECTOR_WILDCARD]: true, footer: { links: true } });
+  });
+
+  it('should create intersections', () => {
+    expect(intersectSelectors()).toBe(true);
+    expect(intersectSelectors({ header: true, body: true }, { body: { title: true }, footer: true })).toEqual({ body: { title: true } });
+    expect(intersectSelectors({ footer: false }, { header: false })).toEqual({ header: false, footer: false });
+    expect(intersectSelectors({ header: true }, { footer: true })).toBe(false);
+  });
+
+  it('should create differences', () => {
+    expect(differenceSelectors({ header: true, body: true }, { body: { comments: true } })).toEqual({ header: true, body: { comments: false } });
+    expect(differenceSelectors(true, { footer: true })).toEqual({ footer: false });
+    expect(differenceSelectors({ header: true }, true)).toBe(false);
+    expect(differenceSelectors({ footer: false }, { header: false })).toEqual({ header: true });
+  });
+
+  it('should check whether a part is included', () => {
+    const selector = { header: true, body: { title: true } };
+
+    expect(selectorIncludes(selector, 'body')).toBe(true);
+    expect(selectorIncludes(selector, 'body.title')).toBe(true);
+    expect(selectorIncludes(selector, ['body', 'title', 'text'])).toBe(true);
+    expect(selectorIncludes(selector, 'body.text')).toBe(false);
+    expect(selectorIncludes(selector, 'footer')).toBe(false);
+    expect(selectorIncludes({ footer: false }, 'body.text')).toBe(true);
+    expect(selectorIncludes({ footer: false }, 'footer.links')).toBe(false);
+    expect(selectorIncludes(false, '')).toBe(false);
+  });
+
+  it('should type paths of entities', () => {
+    type Article = { header: string; body: { title: string; authors: { name: string }[] } };
+
+    expectTypeOf<SelectorPath<Article>>().toEqualTypeOf<'header' | 'body' | 'body.title' | 'body.authors' | 'body.authors.name'>();
+    expect(selectorIncludes<Article>({ body: true }, 'body.authors.name')).toBe(true);
+
+    // @ts-expect-error 'body.text' is not a path of Article
+    selectorIncludes<Article>({ body: true }, 'body.text');
+  });
+
+  describe('project', () => {
+    const article = {
+      header: 'News',
+      body: { title: 'Relativity', text: 'E = mc²' },
+      comments: [{ author: 'Albert', text: 'Indeed' }, { author: 'Mileva', text: 'Agreed' }],
+      published: new Date('1905-09-26T00:00:00.000Z'),
+    };
+
+    it('should copy the included parts', () => {
+      const teaser = project(article, { header: true, body: { title: 1 } });
+
+      expect(teaser).toEqual({ header: 'News', body: { title: 'Relativity' } });
+      expectTypeOf(teaser).toEqualTypeOf<{ header: string; body: { title: string } }>();
+    });
+
+    it('should keep all parts but the excluded ones', () => {
+      const withoutBody = project(article, { body: false, published: '0' });
+
+      expect(withoutBody).toEqual({ header: 'News', comments: article.comments });
+      expectTypeOf(withoutBody).toEqualTypeOf<{ header: string; comments: { author: string; text: string }[] }>();
+    });
+
+    it('should apply selectors to the items of lists', () => {
+      const authors = project(article, { comments: { text: false } });
+
+      expect(authors).toEqual({ comments: [{ author: 'Albert' }, { author: 'Mileva' }] });
+      expectTypeOf(authors).toEqualTypeOf<{ comments: { author: string }[] }>();
+    });
+
+    it('should create deep copies', () => {
+      const copy = project(article, true);
+
+      expect(copy).toEqual(article);
+      expect(copy.body).not.toBe(article.body);
+      expect(copy.comments[0]).not.toBe(article.comments[0]);
+      expect(copy.published).not.toBe(article.published);
+      expect(project(article, false)).toBeUndefined();
+      expect(project(article, { [SELECTOR_WILDCARD]: true, body: { title: true } })).toEqual({ ...article, body: { title: 'Relativity' } });
+    });
+  });
+});
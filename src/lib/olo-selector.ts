@@ -0,0 +1,301 @@
+import { GetListTypeGuard } from 'olo-platform';
+import { AnySelector, NormalizedSelector, SELECTOR_WILDCARD, Selector, SelectorPath, SelectorProjection } from '../types/index.ts';
+
+/**
+ * The internal representation of a selector all operations work on: a boolean or the selection of
+ * the unlisted parts (`all`) together with the selections of the listed parts.
+ */
+type SelectorNode = boolean | { all: boolean; parts: { [part: string]: SelectorNode } };
+
+/**
+ * Checks whether a setting includes its part. `false`, `0`, `''`, `'0'` and `'false'` exclude it,
+ * all other settings include it.
+ *
+ * @param setting - The setting of a part.
+ * @returns `true` if the setting includes the part.
+ */
+export const isIncludedSetting = (setting: boolean | string | number): boolean =>
+  setting !== false && setting !== 0 && setting !== '' && setting !== '0' && setting !== 'false';
+
+/**
+ * Removes the parts whose selection equals the selection of the unlisted parts and collapses
+ * nodes without listed parts into booleans.
+ */
+const simplifyNode = (node: SelectorNode): SelectorNode => {
+  if (typeof node === 'boolean') {
+    return node;
+  }
+
+  const parts = Object.entries(node.parts).reduce<{ [part: string]: SelectorNode }>(
+    (parts, [part, partNode]) => {
+      const simplified = simplifyNode(partNode);
+      if (simplified !== node.all) {
+        parts[part] = simplified;
+      }
+      return parts;
+    },
+    {},
+  );
+
+  return Object.keys(parts).length === 0 ? node.all : { all: node.all, parts };
+};
+
+/**
+ * Converts a selector into its internal representation.
+ *
+ * Without {@link SELECTOR_WILDCARD}, an object selecting any part (by an including setting or a nested selector)
+ * selects only the listed parts; an object only excluding parts (including the empty object) selects all others.
+ */
+const toNode = (selector: AnySelector | string | number): SelectorNode => {
+  if (typeof selector !== 'object') {
+    return isIncludedSetting(selector);
+  }
+
+  const entries = Object.entries(selector).filter(
+    (entry): entry is [string, AnySelector | string | number] => entry[1] !== undefined,
+  );
+  const wildcard = entries.find(([part]) => part === SELECTOR_WILDCARD)?.[1];
+  const all = wildcard !== undefined
+    ? toNode(wildcard) !== false
+    : !entries.some(([, setting]) => typeof setting === 'object' || isIncludedSetting(setting));
+
+  return simplifyNode({
+    all,
+    parts: Object.fromEntries(entries.filter(([part]) => part !== SELECTOR_WILDCARD).map(([part, setting]) => [part, toNode(setting)])),
+  });
+};
+
+/**
+ * Converts an internal representation back into a {@link NormalizedSelector}.
+ */
+const fromNode = (node: SelectorNode): NormalizedSelector => {
+  if (typeof node === 'boolean') {
+    return node;
+  }
+
+  const parts = Object.entries(node.parts);
+  const selector: Selector<string, boolean> = node.all && parts.some(([, partNode]) => typeof partNode === 'object')
+    ? { [SELECTOR_WILDCARD]: true }
+    : {};
+
+  parts.forEach(([part, partNode]) => {
+    selector[part] = fromNode(partNode);
+  });
+
+  return selector;
+};
+
+/**
+ * Returns the selection of a single part of a node.
+ */
+const getPartNode = (node: SelectorNode, part: string): SelectorNode =>
+  typeof node === 'boolean' ? node : node.parts[part] ?? node.all;
+
+/**
+ * Combines two nodes part by part.
+ *
+ * @param a - The first node.
+ * @param b - The second node.
+ * @param combine - Combines two booleans, e.g. with `||` for unions.
+ * @returns The combined node.
+ */
+const combineNodes = (a: SelectorNode, b: SelectorNode, combine: (a: boolean, b: boolean) => boolean): SelectorNode => {
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return combine(a, b);
+  }
+
+  const parts = [...new Set([
+    ...(typeof a === 'object' ? Object.keys(a.parts) : []),
+    ...(typeof b === 'object' ? Object.keys(b.parts) : []),
+  ])];
+
+  return simplifyNode({
+    all: combine(typeof a === 'object' ? a.all : a, typeof b === 'object' ? b.all : b),
+    parts: Object.fromEntries(parts.map(part => [part, combineNodes(getPartNode(a, part), getPartNode(b, part), combine)])),
+  });
+};
+
+/**
+ * Checks whether a value is a plain object, i.e. neither a list nor an instance of a class other than `Object`.
+ */
+const isPlainObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === 'object'
+  && value !== null
+  && (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null);
+
+/**
+ * Creates a deep copy of the selected parts of a value.
+ *
+ * @param value - The value to copy.
+ * @param node - The selection of the parts of the value.
+ * @returns The copy. Values that have no parts (e.g. strings) are returned as they are, dates are copied,
+ *   instances of other classes are kept.
+ */
+const projectValue = (value: unknown, node: SelectorNode): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(item => projectValue(item, node));
+  }
+  if (value instanceof Date) {
+    return new Date(value);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  return Object.entries(value).reduce<{ [key: string]: unknown }>(
+    (copy, [key, partValue]) => {
+      const partNode = getPartNode(node, key);
+      if (partNode !== false) {
+        copy[key] = projectValue(partValue, partNode);
+      }
+      return copy;
+    },
+    {},
+  );
+};
+
+/**
+ * Splits a path into its parts.
+ */
+const splitPath = (path: string | string[]): string[] =>
+  Array.isArray(path) ? path : path.split('.').filter(part => part !== '');
+
+/**
+ * Typeguard for Selector: an object whose values are booleans, strings, numbers or selectors.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a Selector
+ */
+export const isSelector = (obj: unknown): obj is Selector<string, boolean | string | number> =>
+  obj != null
+  && typeof obj === 'object'
+  && !Array.isArray(obj)
+  && Object.values(obj).every(setting =>
+    setting === undefined || ['boolean', 'string', 'number'].includes(typeof setting) || isSelector(setting)
+  );
+
+/**
+ * Typeguard for Selector Array.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a Selector Array
+ */
+export const isSelectorList = GetListTypeGuard(isSelector);
+
+/**
+ * Converts a selector into its canonical form, so that selectors selecting the same parts are deeply equal.
+ *
+ * Settings are converted into booleans (see {@link isIncludedSetting}), selectors selecting everything
+ * (e.g. `{}`) into `true`, and parts whose selection follows from the other parts are removed.
+ *
+ * @param selector - The selector, as boolean or object.
+ *
+ * @returns The {@link NormalizedSelector}.
+ *
+ * @example
+ * console.log(normalizeSelector({ header: 1, body: { title: 'yes' }, footer: 0 })); // Output: { header: true, body: { title: true } }
+ * console.log(normalizeSelector({ body: {} })); // Output: { body: true }
+ * console.log(normalizeSelector({})); // Output: true
+ */
+export const normalizeSelector = <Parts extends string = string>(selector: AnySelector<Parts>): NormalizedSelector<Parts> =>
+  fromNode(toNode(selector)) as NormalizedSelector<Parts>;
+
+/**
+ * Creates a selector selecting every part selected by any of the given selectors.
+ *
+ * @param selectors - The selectors, as booleans or objects.
+ *
+ * @returns The union as {@link NormalizedSelector}. `false` if no selectors are given.
+ *
+ * @example
+ * console.log(unionSelectors({ header: true }, { body: { title: true } })); // Output: { header: true, body: { title: true } }
+ * console.log(unionSelectors({ footer: false }, { footer: { links: true } })); // Output: { '*': true, footer: { links: true } }
+ */
+export const unionSelectors = <Parts extends string = string>(...selectors: AnySelector<Parts>[]): NormalizedSelector<Parts> =>
+  fromNode(selectors.reduce<SelectorNode>((node, selector) => combineNodes(node, toNode(selector), (a, b) => a || b), false)) as NormalizedSelector<Parts>;
+
+/**
+ * Creates a selector selecting only the parts selected by all of the given selectors.
+ *
+ * @param selectors - The selectors, as booleans or objects.
+ *
+ * @returns The intersection as {@link NormalizedSelector}. `true` if no selectors are given.
+ *
+ * @example
+ * console.log(intersectSelectors({ header: true, body: true }, { body: { title: true }, footer: true })); // Output: { body: { title: true } }
+ */
+export const intersectSelectors = <Parts extends string = string>(...selectors: AnySelector<Parts>[]): NormalizedSelector<Parts> =>
+  fromNode(selectors.reduce<SelectorNode>((node, selector) => combineNodes(node, toNode(selector), (a, b) => a && b), true)) as NormalizedSelector<Parts>;
+
+/**
+ * Creates a selector selecting the parts selected by a selector but not by another one.
+ *
+ * @param selector - The selector whose parts are kept.
+ * @param excluded - The selector whose parts are removed.
+ *
+ * @returns The difference as {@link NormalizedSelector}.
+ *
+ * @example
+ * console.log(differenceSelectors({ header: true, body: true }, { body: { comments: true } })); // Output: { header: true, body: { comments: false } }
+ * console.log(differenceSelectors(true, { footer: true })); // Output: { footer: false }
+ */
+export const differenceSelectors = <Parts extends string = string>(selector: AnySelector<Parts>, excluded: AnySelector<Parts>): NormalizedSelector<Parts> =>
+  fromNode(combineNodes(toNode(selector), toNode(excluded), (a, b) => a && !b)) as NormalizedSelector<Parts>;
+
+/**
+ * Checks whether a selector selects a part. Parts of which only some sub-parts are selected count as selected.
+ *
+ * @template Entity - The type of the entity the selector applies to. If given, the path is checked by the compiler
+ *   (see {@link SelectorPath}).
+ *
+ * @param selector - The selector, as boolean or object.
+ * @param path - The path of the part, either dot-separated (`'body.title'`) or as list of parts (`['body', 'title']`).
+ *   The empty path checks whether the selector selects anything.
+ *
+ * @returns `true` if the part is selected.
+ *
+ * @example
+ * const selector = { header: true, body: { title: true } };
+ *
+ * console.log(selectorIncludes(selector, 'body')); // Output: true
+ * console.log(selectorIncludes(selector, 'body.title')); // Output: true
+ * console.log(selectorIncludes(selector, 'body.text')); // Output: false
+ * console.log(selectorIncludes({ footer: false }, 'body.text')); // Output: true
+ */
+export const selectorIncludes = <Entity = unknown>(
+  selector: AnySelector,
+  path: SelectorPath<Entity> | string[],
+): boolean =>
+  splitPath(path).reduce((node, part) => getPartNode(node, part), toNode(selector)) !== false;
+
+/**
+ * Creates a deep copy of an entity holding only the parts selected by a selector, e.g. to apply
+ * the `parts` of an {@link OloDescriptor} as a field mask.
+ *
+ * Nested selectors apply to the parts of objects and to every item of lists. Settings are interpreted
+ * by {@link isIncludedSetting}, so `1`/`0` work as well as `true`/`false`. Selectors only excluding parts
+ * keep all other parts (see {@link SELECTOR_WILDCARD}).
+ *
+ * @template Entity - The type of the entity.
+ * @template SelectorType - The literal type of the selector, inferred from the argument.
+ *
+ * @param entity - The entity to project.
+ * @param selector - The selector, as boolean or object.
+ *
+ * @returns The copy, typed as {@link SelectorProjection}. `undefined` if the selector selects nothing.
+ *
+ * @example
+ * const article = { header: 'News', body: { title: 'Relativity', text: '...' }, comments: [{ author: 'Albert', text: '...' }] };
+ *
+ * console.log(project(article, { header: true, body: { title: 1 } })); // Output: { header: 'News', body: { title: 'Relativity' } }
+ * console.log(project(article, { comments: { text: 0 } })); // Output: { comments: [{ author: 'Albert' }] }
+ * console.log(project(article, { body: false })); // Output: { header: 'News', comments: [{ author: 'Albert', text: '...' }] }
+ */
+export const project = <Entity, const SelectorType extends AnySelector>(
+  entity: Entity,
+  selector: SelectorType,
+): SelectorProjection<Entity, SelectorType> => {
+  const node = toNode(selector);
+
+  return (node === false ? undefined : projectValue(entity, node)) as SelectorProjection<Entity, SelectorType>;
+};
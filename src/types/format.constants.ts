@@ -79,3 +79,17 @@ export const isFormat = (obj: unknown): obj is Format =>
  * A list of all formats that can be used for validation.
  */
 export const Formats = Object.values(Format);
+
+/**
+ * The formats an entity is served in, in order of preference, if it can't be served in the requested format
+ * (see {@link negotiateDescriptor}). For example, a video that isn't available is replaced by its poster image,
+ * or by a link to it.
+ */
+export const FORMAT_FALLBACKS: Partial<Record<Format, Format[]>> = {
+  [Format.video]: [Format.image, Format.link],
+  [Format.audio]: [Format.link],
+  [Format.graphic]: [Format.image, Format.link],
+  [Format.image]: [Format.link],
+  [Format.document]: [Format.text, Format.link],
+  [Format.text]: [Format.link],
+};
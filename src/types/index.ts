@@ -1,7 +1,21 @@
 export * from './format.constants.ts';
+export * from './olo-format.types.ts';
 export * from './olo-id.constants.ts';
 export * from './olo-id.types.ts';
+export * from './olo-id-index.types.ts';
+export * from './olo-id-issue.constants.ts';
+export * from './olo-id-issue.types.ts';
+export * from './olo-id-match.types.ts';
+export * from './olo-id-resolver.types.ts';
+export * from './olo-id-sort.types.ts';
+export * from './olo-id-syntax.types.ts';
+export * from './olo-id-token.types.ts';
 export * from './olo-identifier.types.ts'
+export * from './olo-json-schema.types.ts';
+export * from './olo-negotiation.types.ts';
+export * from './olo-resource-issue.constants.ts';
+export * from './olo-resource-issue.types.ts';
 export * from './olo-uri.types.ts';
 export * from './reference-type.constants.ts';
+export * from './selector.constants.ts';
 export * from './selector.types.ts';
@@ -0,0 +1,39 @@
+import { Format } from './format.constants.ts';
+
+/**
+ * The media fields of an {@link OloResource} a format can declare as applicable.
+ */
+export type OloResourceField = 'filetype' | 'ratio' | 'focus' | 'size' | 'width' | 'height' | 'framerate' | 'duration' | 'kompression' | 'cropable';
+
+/**
+ * Describes a format in an {@link OloFormatRegistry}: how its files are typed and which media fields apply to it.
+ *
+ * @example
+ * const definition: OloFormatDefinition = {
+ *   format: 'MODEL',
+ *   mimeTypes: ['model/gltf-binary', 'model/gltf+json'],
+ *   extensions: { glb: 'model/gltf-binary', gltf: 'model/gltf+json' },
+ *   fields: ['filetype', 'size'],
+ * };
+ */
+export interface OloFormatDefinition {
+  /**
+   * The format: one of the {@link Format} values, or the name of a custom format.
+   */
+  format: Format | string;
+
+  /**
+   * The MIME types of files of the format, the preferred one first.
+   */
+  mimeTypes: string[];
+
+  /**
+   * The file extensions of the format (without leading dot), mapped to the MIME type of their files.
+   */
+  extensions: { [extension: string]: string };
+
+  /**
+   * The fields of an `OloResource` that apply to the format, e.g. `duration` for audio.
+   */
+  fields: OloResourceField[];
+}
@@ -0,0 +1,31 @@
+import { IdentifiableEntity } from './olo-identifier.types.ts';
+
+/**
+ * Describes two entities of an {@link OloIdIndex} sharing an identity, i.e. having an OloId
+ * with the same syntax and values.
+ *
+ * @template Entity - The type of the indexed entities.
+ *
+ * @example
+ * const conflict: OloIdIndexConflict<User> = {
+ *   key: 'id=ae123',
+ *   indexed: albert,
+ *   conflicting: albertDuplicate,
+ * };
+ */
+export interface OloIdIndexConflict<Entity extends IdentifiableEntity = IdentifiableEntity> {
+  /**
+   * The canonical form of the shared OloId (see {@link OloId.canonicalize}).
+   */
+  key: string;
+
+  /**
+   * The entity that was indexed first and is returned for the shared OloId.
+   */
+  indexed: Entity;
+
+  /**
+   * The entity that was added later and isn't returned for the shared OloId.
+   */
+  conflicting: Entity;
+}
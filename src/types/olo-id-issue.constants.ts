@@ -0,0 +1,92 @@
+/**
+ * Defines the codes of the problems that can be found when an identifier is parsed or validated
+ * against its syntax definition.
+ *
+ * The codes are used by {@link OloIdIssue} and allow consumers to react to specific
+ * problems (e.g. map them to API error messages) without parsing the human-readable message.
+ */
+export enum OloIdIssueCode {
+  /**
+   * A property declared by the syntax has no value.
+   */
+  missingValue = 'MISSING_VALUE',
+
+  /**
+   * The value doesn't match the declared property type (e.g. `uuid`, `integer`).
+   */
+  invalidType = 'INVALID_TYPE',
+
+  /**
+   * The value is not one of the values allowed by the declared `enum`.
+   */
+  invalidEnum = 'INVALID_ENUM',
+
+  /**
+   * The value doesn't match the declared `pattern`.
+   */
+  patternMismatch = 'PATTERN_MISMATCH',
+
+  /**
+   * The value is shorter than the declared `minLength`.
+   */
+  tooShort = 'TOO_SHORT',
+
+  /**
+   * The value is longer than the declared `maxLength`.
+   */
+  tooLong = 'TOO_LONG',
+
+  /**
+   * A string representation has fewer segments than the syntax has properties.
+   */
+  missingSegment = 'MISSING_SEGMENT',
+
+  /**
+   * A string representation has more segments than the syntax has properties.
+   */
+  surplusSegment = 'SURPLUS_SEGMENT',
+
+  /**
+   * A property has an empty value.
+   */
+  emptyValue = 'EMPTY_VALUE',
+
+  /**
+   * The syntax of the identifier is not registered.
+   */
+  unknownSyntax = 'UNKNOWN_SYNTAX',
+
+  /**
+   * An external representation (e.g. a URN) is malformed or doesn't match the expected syntax.
+   */
+  invalidFormat = 'INVALID_FORMAT',
+
+  /**
+   * The signature of a signed token doesn't match its content, or the token isn't signed.
+   */
+  invalidSignature = 'INVALID_SIGNATURE',
+
+  /**
+   * A signed token has expired.
+   */
+  expired = 'EXPIRED',
+
+  /**
+   * A signed token was issued for another audience.
+   */
+  invalidAudience = 'INVALID_AUDIENCE',
+
+  /**
+   * The OloIds of a set hold different values for the same property.
+   */
+  conflictingValue = 'CONFLICTING_VALUE',
+}
+
+/**
+ * Typeguard for OloIdIssueCode.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a OloIdIssueCode
+ */
+export const isOloIdIssueCode = (obj: unknown): obj is OloIdIssueCode =>
+  obj != null && typeof obj === 'string' && Object.values(OloIdIssueCode).includes(obj as OloIdIssueCode);
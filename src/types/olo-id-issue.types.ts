@@ -0,0 +1,79 @@
+import { OloIdIssueCode } from './olo-id-issue.constants.ts';
+
+/**
+ * Describes a single problem found while validating or parsing an identifier.
+ *
+ * Issues are collected by {@link OloIdSyntax.validate} and carried by {@link OloIdError},
+ * so that all problems of an identifier can be reported at once.
+ *
+ * @example
+ * const issue: OloIdIssue = {
+ *   code: OloIdIssueCode.invalidType,
+ *   property: 'id',
+ *   value: 'abc',
+ *   message: 'Value of property "id" is not a valid uuid.',
+ * };
+ */
+export interface OloIdIssue {
+  /**
+   * The machine-readable code of the problem.
+   */
+  code: OloIdIssueCode;
+
+  /**
+   * The name of the property the problem relates to, if it relates to a single property.
+   *
+   * @optional
+   */
+  property?: string;
+
+  /**
+   * The offending value, if any.
+   *
+   * @optional
+   */
+  value?: unknown;
+
+  /**
+   * A human-readable description of the problem.
+   */
+  message: string;
+}
+
+/**
+ * The result of parsing an identifier without throwing, e.g. via {@link OloId.tryParse}.
+ *
+ * Either the parsing succeeded and `id` holds the identifier, or it failed and `issues`
+ * lists every problem found.
+ *
+ * @template Identifier - The type of the parsed identifier.
+ *
+ * @example
+ * const result = OloId.tryParse('article', { syntax: ['type', 'id'] });
+ *
+ * if (!result.success) {
+ *   console.log(result.issues.map(issue => issue.code)); // Output: ['MISSING_SEGMENT']
+ * }
+ */
+export type OloIdParseResult<Identifier> =
+  | { success: true; id: Identifier; issues: [] }
+  | { success: false; id?: undefined; issues: OloIdIssue[] };
+
+/**
+ * The result of merging identifiers without throwing, e.g. via {@link OloIdSet.merge}.
+ *
+ * Either the merge succeeded and `set` holds the merged identifier, or it failed and `issues`
+ * lists every conflict found.
+ *
+ * @template Identifier - The type of the merged identifier.
+ *
+ * @example
+ * const result = user1.merge({ id: 'ae124' });
+ *
+ * if (!result.success) {
+ *   console.log(result.issues.map(issue => issue.property)); // Output: ['id']
+ * }
+ */
+export type OloIdMergeResult<Identifier> =
+  | { success: true; set: Identifier; issues: [] }
+  | { success: false; set?: undefined; issues: OloIdIssue[] };
@@ -0,0 +1,35 @@
+/**
+ * A pattern identifiers can be matched against, e.g. via {@link OloId.matches}.
+ *
+ * - A string in the string representation of the identifier, e.g. `'article/*'`.
+ *   Values can contain `*` wildcards, which match any sequence of characters (e.g. `'article/2024-*'`).
+ *   Patterns with fewer values than the syntax match on a prefix of the syntax, so `'article'` matches every id
+ *   of type `article`.
+ * - An object holding the values (or wildcard patterns) of some properties, e.g. `{ type: 'article' }`.
+ *   Properties not listed in the object match any value.
+ *
+ * @example
+ * const byString: OloIdPattern = 'article/*';
+ * const byPrefix: OloIdPattern = 'article';
+ * const byObject: OloIdPattern = { type: 'article', id: 'news-*' };
+ */
+export type OloIdPattern = string | { [property: string]: string | number };
+
+/**
+ * The result of matching an identifier against an {@link OloIdPattern}.
+ *
+ * If the identifier matches, `syntax` holds the syntax of the matching identifier and `captures`
+ * the values of all properties matched by a wildcard or not covered by the pattern.
+ *
+ * @template IdentifierValue - The type of the identifier values. Defaults to `string | number`.
+ *
+ * @example
+ * const result = new OloId('article/123', { syntax: ['type', 'id'] }).matches('article/*');
+ *
+ * if (result.matched) {
+ *   console.log(result.captures); // Output: { id: '123' }
+ * }
+ */
+export type OloIdMatchResult<IdentifierValue extends string | number = string | number> =
+  | { matched: true; syntax: string[]; captures: { [property: string]: IdentifierValue } }
+  | { matched: false; syntax?: undefined; captures?: undefined };
@@ -0,0 +1,54 @@
+import { IdentifiableEntity } from './olo-identifier.types.ts';
+import type { OloIdSet } from '../lib/olo-id-set.ts';
+
+/**
+ * Describes a property that holds different values within one {@link OloIdCluster},
+ * e.g. two entities sharing the same `id` but having different email addresses.
+ *
+ * @template Entity - The type of the resolved entities.
+ *
+ * @example
+ * const contradiction: OloIdContradiction<User> = {
+ *   property: 'username',
+ *   values: [
+ *     { value: 'albert', entities: [albert] },
+ *     { value: 'albert.einstein', entities: [albertImported] },
+ *   ],
+ * };
+ */
+export interface OloIdContradiction<Entity extends IdentifiableEntity = IdentifiableEntity> {
+  /**
+   * The name of the property holding different values.
+   */
+  property: string;
+
+  /**
+   * The distinct values of the property together with the entities holding them,
+   * in the order the values were first found.
+   */
+  values: { value: string | number; entities: Entity[] }[];
+}
+
+/**
+ * A group of entities identifying the same identity, directly or transitively
+ * (A matches B by `id`, B matches C by `username/domain`).
+ *
+ * @template Entity - The type of the resolved entities.
+ */
+export interface OloIdCluster<Entity extends IdentifiableEntity = IdentifiableEntity> {
+  /**
+   * The entities of the cluster, in the order they were added.
+   */
+  entities: Entity[];
+
+  /**
+   * The merged identification of all entities of the cluster. If a property holds different
+   * values, the value of the first entity is used.
+   */
+  identification: OloIdSet;
+
+  /**
+   * The properties holding different values within the cluster.
+   */
+  contradictions: OloIdContradiction<Entity>[];
+}
@@ -0,0 +1,24 @@
+/**
+ * Configures the sorting of identifiers, e.g. via {@link sortOloIds}.
+ *
+ * @example
+ * const newestArticlesFirst: OloIdSortOptions = { syntax: ['type', 'id'], order: 'desc' };
+ */
+export interface OloIdSortOptions {
+  /**
+   * The syntax whose OloIds are compared. OloIdSets are compared by their OloId of this syntax only,
+   * identifiers without an OloId of this syntax are sorted last (first in descending order).
+   * By default all OloIds of a set are compared.
+   *
+   * @optional
+   */
+  syntax?: string[];
+
+  /**
+   * The direction of the order.
+   *
+   * @default 'asc'
+   * @optional
+   */
+  order?: 'asc' | 'desc';
+}
@@ -0,0 +1,371 @@
+/**
+ * The built-in value types an identifier property can be declared with.
+ *
+ * - `string`: Any non-empty string or number (the default).
+ * - `uuid`: A UUID in its canonical 8-4-4-4-12 hex representation.
+ * - `integer`: An integer number or a string consisting of an optional sign and digits.
+ * - `slug`: Lowercase alphanumeric words joined by single dashes (e.g. `my-article-2`).
+ * - `emailLocalPart`: The part of an email address in front of the `@` (dot-atom, max. 64 characters).
+ */
+export type OloIdPropertyKind = 'string' | 'uuid' | 'integer' | 'slug' | 'emailLocalPart';
+
+/**
+ * The built-in normalizers that can be applied to identifier property values.
+ *
+ * - `lowercase`: Converts strings to lower case.
+ * - `trim`: Removes leading and trailing whitespace from strings.
+ * - `nfc`: Converts strings to the Unicode normalization form C.
+ * - `punycode`: Converts internationalized domain names to their ASCII (punycode) form, e.g. `bücher.de` to `xn--bcher-kva.de`.
+ * - `number`: Converts numeric strings to numbers, e.g. `'42'` to `42`.
+ */
+export type OloIdNormalizerName = 'lowercase' | 'trim' | 'nfc' | 'punycode' | 'number';
+
+/**
+ * A normalizer applied to an identifier property value: the name of a built-in normalizer
+ * or a custom function returning the normalized value.
+ */
+export type OloIdNormalizer = OloIdNormalizerName | ((value: string | number) => string | number);
+
+/**
+ * The built-in strategies to generate identifier property values with.
+ *
+ * - `uuid`: A random UUID (version 4).
+ * - `uuidv7`: A time-ordered UUID (version 7).
+ * - `ulid`: A time-ordered ULID, e.g. `01ARZ3NDEKTSV4RRFFQ69G5FAV`.
+ * - `nanoid`: A random URL-safe string of 21 characters (see {@link OloIdGeneratorOptions.size}).
+ * - `counter`: A monotonically increasing number (see {@link OloIdGeneratorOptions.start}).
+ * - `slug`: A slug created from another value of the identifier (see {@link OloIdGeneratorOptions.from}).
+ */
+export type OloIdGeneratorStrategy = 'uuid' | 'uuidv7' | 'ulid' | 'nanoid' | 'counter' | 'slug';
+
+/**
+ * Configures a built-in generator strategy.
+ *
+ * @example
+ * const shortId: OloIdGeneratorOptions = { strategy: 'nanoid', size: 10 };
+ * const titleSlug: OloIdGeneratorOptions = { strategy: 'slug', from: 'title' };
+ */
+export interface OloIdGeneratorOptions {
+  /**
+   * The strategy used to generate values.
+   */
+  strategy: OloIdGeneratorStrategy;
+
+  /**
+   * The number of characters of values generated by the `nanoid` strategy.
+   *
+   * @default 21
+   * @optional
+   */
+  size?: number;
+
+  /**
+   * The first value generated by the `counter` strategy. Counters are kept per property declaration.
+   *
+   * @default 1
+   * @optional
+   */
+  start?: number;
+
+  /**
+   * The property whose value the `slug` strategy creates the slug from. It doesn't need to be part of the syntax.
+   *
+   * @default 'label'
+   * @optional
+   */
+  from?: string;
+}
+
+/**
+ * A generator for identifier property values: the name or configuration of a built-in strategy
+ * or a custom function receiving the values known so far.
+ */
+export type OloIdGenerator =
+  | OloIdGeneratorStrategy
+  | OloIdGeneratorOptions
+  | ((uri: { [property: string]: unknown }) => string | number);
+
+/**
+ * The time-ordered id schemes a timestamp can be extracted from.
+ *
+ * - `ulid`: The first 10 characters of a ULID.
+ * - `uuidv7`: The first 48 bits of a version 7 UUID.
+ * - `snowflake`: The bits of a numeric (snowflake-like) id above its worker and sequence bits,
+ *   see {@link OloIdTimestampOptions.shift} and {@link OloIdTimestampOptions.epoch}.
+ */
+export type OloIdTimestampScheme = 'ulid' | 'uuidv7' | 'snowflake';
+
+/**
+ * Configures how the timestamp embedded in the values of a property is extracted.
+ *
+ * @example
+ * // Twitter snowflakes
+ * const snowflake: OloIdTimestampOptions = { scheme: 'snowflake', epoch: 1288834974657, shift: 22 };
+ */
+export interface OloIdTimestampOptions {
+  /**
+   * The scheme of the values.
+   */
+  scheme: OloIdTimestampScheme;
+
+  /**
+   * The point in time (in milliseconds since 1970) snowflake timestamps are counted from.
+   *
+   * @default 0
+   * @optional
+   */
+  epoch?: number;
+
+  /**
+   * The number of bits below the timestamp of snowflakes.
+   *
+   * @default 22
+   * @optional
+   */
+  shift?: number;
+}
+
+/**
+ * Declares the type and constraints of a single identifier property within an {@link OloIdSyntaxDefinition}.
+ *
+ * All declared constraints need to be met by a value for it to be valid.
+ *
+ * @example
+ * // A uuid
+ * const idType: OloIdPropertyType = { type: 'uuid' };
+ *
+ * // One of a fixed set of values
+ * const typeType: OloIdPropertyType = { enum: ['article', 'video'] };
+ *
+ * // A short code matching a pattern
+ * const codeType: OloIdPropertyType = { pattern: /^[A-Z]{2}\d+$/, minLength: 3, maxLength: 8 };
+ *
+ * // A case-insensitive domain
+ * const domainType: OloIdPropertyType = { normalize: ['trim', 'lowercase', 'punycode'] };
+ *
+ * // A generated, time-ordered id
+ * const generatedType: OloIdPropertyType = { type: 'uuid', generate: 'uuidv7' };
+ */
+export interface OloIdPropertyType {
+  /**
+   * The value type of the property.
+   *
+   * @default 'string'
+   * @optional
+   */
+  type?: OloIdPropertyKind;
+
+  /**
+   * A list of allowed values. Values are compared by their string representation,
+   * so `1` and `'1'` are considered equal.
+   *
+   * @optional
+   */
+  enum?: (string | number)[];
+
+  /**
+   * A regular expression the string representation of the value needs to match.
+   *
+   * @optional
+   */
+  pattern?: RegExp | string;
+
+  /**
+   * The minimum length of the string representation of the value.
+   *
+   * @optional
+   */
+  minLength?: number;
+
+  /**
+   * The maximum length of the string representation of the value.
+   *
+   * @optional
+   */
+  maxLength?: number;
+
+  /**
+   * If `true`, a missing value is not reported as an issue. Properties declaring neither a `type` nor a constraint
+   * (`enum`, `pattern`, `minLength`, `maxLength`), e.g. only normalizers, are always optional.
+   *
+   * @default false
+   * @optional
+   */
+  optional?: boolean;
+
+  /**
+   * Normalizers applied (in the given order) to the value whenever an identifier with this syntax
+   * is created or compared, so that e.g. `'Oloteo.com'` and `'oloteo.com'` are considered the same.
+   * Values are normalized before they are validated.
+   *
+   * @example
+   * { normalize: ['trim', 'lowercase', 'punycode'] }
+   *
+   * @optional
+   */
+  normalize?: OloIdNormalizer | OloIdNormalizer[];
+
+  /**
+   * The generator used to fill in a missing value of the property when an identifier is generated
+   * with {@link OloId.generate}.
+   *
+   * @example
+   * { type: 'uuid', generate: 'uuid' }
+   *
+   * @optional
+   */
+  generate?: OloIdGenerator;
+
+  /**
+   * The time-ordered scheme of the values, used to extract their timestamps (see {@link OloId.getTimestamp}).
+   * Defaults to the strategy of a `ulid` or `uuidv7` generator. Without either, the values don't embed a timestamp.
+   *
+   * @example
+   * { type: 'integer', timestamp: { scheme: 'snowflake', epoch: 1288834974657 } }
+   *
+   * @optional
+   */
+  timestamp?: OloIdTimestampScheme | OloIdTimestampOptions;
+}
+
+/**
+ * Configures the URN and URL path representations of identifiers with a syntax.
+ *
+ * @example
+ * // "urn:shop:product:ABC" for an id with syntax ['sku', 'category']
+ * const urn: OloIdUrnFormat = { namespace: 'shop', order: ['category', 'sku'] };
+ */
+export interface OloIdUrnFormat {
+  /**
+   * The namespace identifier rendered after `urn:`. URNs are matched to syntaxes by their namespace when parsed.
+   *
+   * @default 'olo'
+   * @optional
+   */
+  namespace?: string;
+
+  /**
+   * The order in which the values are rendered as URN and URL path segments.
+   * Properties of the syntax missing in the list are appended in syntax order.
+   *
+   * @default The order of the syntax.
+   * @optional
+   */
+  order?: string[];
+}
+
+/**
+ * Describes a single syntax registered in an {@link OloIdSyntax} registry together with
+ * the way identifiers of this syntax are rendered to and parsed from strings.
+ *
+ * @template IdentifierProperties - An array of string types defining the ordered property names of the syntax. Defaults to `string[]`.
+ *
+ * @example
+ * // Email-like identifiers: "albert.einstein@oloteo.com"
+ * const emailSyntax: OloIdSyntaxDefinition<['username', 'domain']> = {
+ *   syntax: ['username', 'domain'],
+ *   separator: '@',
+ * };
+ *
+ * // Prefixed identifiers: "user:123"
+ * const userSyntax: OloIdSyntaxDefinition<['id']> = { syntax: ['id'], prefix: 'user:' };
+ *
+ * // Typed identifiers: "article/2f1c...", validated on creation
+ * const typedSyntax: OloIdSyntaxDefinition<['type', 'id']> = {
+ *   syntax: ['type', 'id'],
+ *   properties: { type: { enum: ['article', 'video'] }, id: 'uuid' },
+ * };
+ *
+ * // Path identifiers: "oloteo/website/home", with the parent "oloteo/website"
+ * const pathSyntax: OloIdSyntaxDefinition<['org', 'project', 'item']> = {
+ *   syntax: ['org', 'project', 'item'],
+ *   hierarchical: true,
+ * };
+ */
+export interface OloIdSyntaxDefinition<IdentifierProperties extends string[] = string[]> {
+  /**
+   * The ordered property names of the syntax.
+   */
+  syntax: IdentifierProperties;
+
+  /**
+   * The separator used between the values of identifiers with this syntax.
+   * Defaults to the separator of the registry the syntax is registered in.
+   *
+   * @optional
+   */
+  separator?: string;
+
+  /**
+   * A string rendered in front of the values of identifiers with this syntax.
+   *
+   * @default ''
+   * @optional
+   */
+  prefix?: string;
+
+  /**
+   * A string rendered after the values of identifiers with this syntax.
+   *
+   * @default ''
+   * @optional
+   */
+  suffix?: string;
+
+  /**
+   * Declares the value types of the properties of the syntax. Identifiers with this syntax are
+   * validated against these declarations when they are created or compared.
+   *
+   * Properties can be declared with a full {@link OloIdPropertyType} or just the name of a {@link OloIdPropertyKind}.
+   * Properties without a declaration are not validated.
+   *
+   * @example
+   * { id: 'uuid', type: { enum: ['article', 'video'] } }
+   *
+   * @optional
+   */
+  properties?: { [property: string]: OloIdPropertyType | OloIdPropertyKind };
+
+  /**
+   * Configures the URN and URL path representations of identifiers with this syntax.
+   *
+   * @optional
+   */
+  urn?: OloIdUrnFormat;
+
+  /**
+   * If `true`, the syntax describes a path (e.g. `org/project/item`): every leading part of the syntax
+   * (`org`, `org/project`) is a level of the hierarchy, whose identifiers can be navigated with
+   * {@link OloId.parent}, {@link OloId.child}, {@link OloId.ancestors} and {@link OloId.isDescendantOf}.
+   *
+   * Levels aren't registered themselves, but are rendered, normalized and validated like the hierarchy.
+   *
+   * @default false
+   * @optional
+   */
+  hierarchical?: boolean;
+}
+
+/**
+ * Any input accepted by {@link OloIdSyntax} to register a syntax:
+ * a separator-joined string (e.g. `"type/id"`), an array of property names
+ * (e.g. `['type', 'id']`) or a full {@link OloIdSyntaxDefinition}.
+ */
+export type OloIdSyntaxEntry = string | string[] | OloIdSyntaxDefinition;
+
+/**
+ * Typeguard for OloIdSyntaxDefinition.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a OloIdSyntaxDefinition
+ */
+export const isOloIdSyntaxDefinition = (obj: unknown): obj is OloIdSyntaxDefinition =>
+  obj != null
+  && typeof obj === 'object'
+  && Array.isArray((obj as OloIdSyntaxDefinition).syntax)
+  && ((obj as OloIdSyntaxDefinition).separator === undefined || typeof (obj as OloIdSyntaxDefinition).separator === 'string')
+  && ((obj as OloIdSyntaxDefinition).prefix === undefined || typeof (obj as OloIdSyntaxDefinition).prefix === 'string')
+  && ((obj as OloIdSyntaxDefinition).suffix === undefined || typeof (obj as OloIdSyntaxDefinition).suffix === 'string')
+  && ((obj as OloIdSyntaxDefinition).properties === undefined || typeof (obj as OloIdSyntaxDefinition).properties === 'object')
+  && ((obj as OloIdSyntaxDefinition).urn === undefined || typeof (obj as OloIdSyntaxDefinition).urn === 'object')
+  && ((obj as OloIdSyntaxDefinition).hierarchical === undefined || typeof (obj as OloIdSyntaxDefinition).hierarchical === 'boolean');
@@ -0,0 +1,108 @@
+import { GetListTypeGuard } from 'olo-platform';
+import type { OloIdSigner } from '../lib/olo-id-signer.ts';
+
+/**
+ * The canonical form of a single {@link OloId} within a token: its property names and values
+ * as `[property, value]` pairs in syntax order.
+ *
+ * Values keep their type, so `1` and `'1'` result in different tokens.
+ *
+ * @example
+ * const entries: OloIdTokenEntries = [['type', 'article'], ['id', 123]];
+ */
+export type OloIdTokenEntries = [string, string | number][];
+
+/**
+ * Typeguard for OloIdTokenEntries.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a OloIdTokenEntries
+ */
+export const isOloIdTokenEntries = (obj: unknown): obj is OloIdTokenEntries =>
+  Array.isArray(obj)
+  && obj.length > 0
+  && obj.every(
+    entry => Array.isArray(entry)
+      && entry.length === 2
+      && typeof entry[0] === 'string'
+      && (typeof entry[1] === 'string' || typeof entry[1] === 'number')
+  );
+
+/**
+ * Typeguard for OloIdTokenEntries Array.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a OloIdTokenEntries list
+ */
+export const isOloIdTokenEntriesList = GetListTypeGuard(isOloIdTokenEntries);
+
+/**
+ * Options for signing a token with an {@link OloIdSigner}.
+ */
+export interface OloIdSignOptions {
+  /**
+   * The number of seconds after which the token expires.
+   *
+   * @optional
+   */
+  expiresIn?: number;
+
+  /**
+   * The point in time the token expires at. Takes precedence over `expiresIn`.
+   *
+   * @optional
+   */
+  expiresAt?: Date;
+
+  /**
+   * The audience (e.g. a client app) the token is issued for.
+   * Verifying the token then requires the same audience.
+   *
+   * @optional
+   */
+  audience?: string;
+}
+
+/**
+ * Options for verifying a token signed with an {@link OloIdSigner}.
+ */
+export interface OloIdVerifyOptions {
+  /**
+   * The audience (or list of audiences) accepted. Required if the token was issued for an audience.
+   *
+   * @optional
+   */
+  audience?: string | string[];
+
+  /**
+   * The point in time expiry is checked against.
+   *
+   * @default new Date()
+   * @optional
+   */
+  now?: Date;
+}
+
+/**
+ * Options for encoding an identifier into a token (e.g. via {@link OloId.toToken}).
+ */
+export interface OloIdTokenOptions extends OloIdSignOptions {
+  /**
+   * If set, the token is signed with this signer. `expiresIn`, `expiresAt` and `audience` only apply to signed tokens.
+   *
+   * @optional
+   */
+  signer?: OloIdSigner;
+}
+
+/**
+ * Options for decoding a token into an identifier (e.g. via {@link OloId.fromToken}).
+ */
+export interface OloIdTokenDecodeOptions extends OloIdVerifyOptions {
+  /**
+   * If set, the token needs to be signed by this signer and is verified before it's decoded.
+   *
+   * @optional
+   */
+  signer?: OloIdSigner;
+}
@@ -37,3 +37,17 @@ export const ID_TYPE_SEPARATOR = '/' as const;
  * @see {@link ID_TYPE_SEPARATOR}
  */
 export type IdSeparator = typeof ID_TYPE_SEPARATOR;
+
+/**
+ * The default namespace used in the URN representation of an {@link OloId}
+ * (`urn:<namespace>:<values>`) if its syntax doesn't declare one.
+ *
+ * @default 'olo'
+ */
+export const ID_URN_NAMESPACE = 'olo' as const;
+
+/**
+ * The key of the (non-enumerable) property holding the brand of a branded {@link OloId}
+ * (see {@link defineIdBrand}).
+ */
+export const ID_BRAND: unique symbol = Symbol('OloIdBrand');
@@ -1,12 +1,13 @@
 import { ConcatString } from 'olo-platform';
 import { IdSeparator } from './olo-id.constants.ts';
+import type { OloIdSyntax } from '../lib/olo-id-syntax.ts';
 
 /**
  * Defines optional configuration parameters for creating instances of {@link OloId}
  * and related classes like {@link OloIdSet}.
  *
  * This interface allows specifying the identifier's structure (syntax), whether
- * a new syntax should be registered globally, and the separator character to use.
+ * a new syntax should be registered, the syntax registry to use, and the separator character to use.
  *
  * @template IdentifierProperties - An array of string types defining the ordered property names of the identifier (e.g., `['type', 'id']`). Defaults to `string[]`.
  * @template Separator - The string literal type used as the separator character(s). Defaults to `/` (defined by `IdSeparator`).
@@ -29,8 +30,8 @@ export interface OloIdOptions<IdentifierProperties extends string[] = string[],
   syntax?: ConcatString<IdentifierProperties, Separator> | IdentifierProperties;
 
   /**
-   * If `true`, and the determined or provided `syntax` is not already registered globally
-   * via {@link OloIdSyntax}, it will be added to the global registry.
+   * If `true`, and the determined or provided `syntax` is not already registered
+   * in the used {@link OloIdSyntax} registry, it will be added to it.
    *
    * @default false
    *
@@ -43,9 +44,46 @@ export interface OloIdOptions<IdentifierProperties extends string[] = string[],
    * 1. Parsing the input `uri` if it's provided as a string.
    * 2. Setting the default separator for the `toString()` and `toSyntaxString()` methods of the created `OloId` instance.
    *
-   * If omitted, it defaults to the globally configured separator managed by {@link OloIdSyntax} (usually '/').
+   * If omitted, it defaults to the separator configured in the used {@link OloIdSyntax} registry (usually '/').
    *
    * @optional
    */
   separator?: Separator;
+
+  /**
+   * The {@link OloIdSyntax} registry used to look up and register syntaxes.
+   *
+   * Pass a scoped registry (e.g. `new OloIdSyntax([...], { scoped: true })`) to keep the identifier
+   * independent of the global registry. If omitted, the registry of the source identifier is used
+   * when copying an existing `OloId` or `OloIdSet`, and the global registry otherwise.
+   *
+   * @optional
+   */
+  registry?: OloIdSyntax<string>;
+
+  /**
+   * If `true`, the identifier is created only if its input matches the syntax exactly.
+   * Instead of filling gaps with `ID_PROP_UNDEFINED` or silently dropping data,
+   * an {@link OloIdError} listing all issues is thrown if
+   * - the syntax is not registered,
+   * - a string representation has missing or surplus segments,
+   * - a value is missing or empty.
+   *
+   * @default false
+   *
+   * @optional
+   */
+  strict?: boolean;
+
+  /**
+   * If `true`, an {@link OloIdSet} is only created if its OloIds don't hold different values
+   * for the same property. Otherwise an {@link OloIdError} listing the conflicts is thrown.
+   *
+   * Conflicts can only arise if a set is created from separately created OloIds (an `OloIdMap`).
+   *
+   * @default false
+   *
+   * @optional
+   */
+  rejectConflicts?: boolean;
 }
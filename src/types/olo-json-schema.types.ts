@@ -0,0 +1,102 @@
+/**
+ * The serialized forms a JSON Schema can be generated for: the output of `toJSON()` of
+ * {@link OloDescriptor}, {@link OloReference} and {@link OloResource}.
+ */
+export type OloJsonSchemaKind = 'descriptor' | 'reference' | 'resource';
+
+/**
+ * The subset of JSON Schema (draft 2020-12) used by the schemas generated with {@link getOloJsonSchema}
+ * and understood by {@link validateJsonSchema}.
+ *
+ * @example
+ * const schema: OloJsonSchema = {
+ *   type: 'object',
+ *   properties: { label: { type: 'string', maxLength: 120 } },
+ *   required: ['label'],
+ * };
+ */
+export interface OloJsonSchema {
+  $schema?: string;
+  $defs?: { [name: string]: OloJsonSchema };
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: OloJsonSchemaType | OloJsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  properties?: { [property: string]: OloJsonSchema };
+  required?: string[];
+  additionalProperties?: boolean | OloJsonSchema;
+  minProperties?: number;
+  prefixItems?: OloJsonSchema[];
+  items?: boolean | OloJsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: OloJsonSchema[];
+  allOf?: OloJsonSchema[];
+}
+
+/**
+ * The JSON types a {@link OloJsonSchema} can require.
+ */
+export type OloJsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Describes a single place where a value doesn't match a {@link OloJsonSchema}.
+ *
+ * @example
+ * const error: OloJsonSchemaError = {
+ *   path: '/ratio/1',
+ *   keyword: 'type',
+ *   value: '9',
+ *   message: 'must be number',
+ * };
+ */
+export interface OloJsonSchemaError {
+  /**
+   * The JSON Pointer to the offending value, e.g. `/uri/id`. The empty string points to the validated value itself.
+   * Missing required properties are pointed to directly, e.g. `/format`.
+   */
+  path: string;
+
+  /**
+   * The JSON Schema keyword that failed, e.g. `required` or `type`.
+   */
+  keyword: string;
+
+  /**
+   * The offending value.
+   *
+   * @optional
+   */
+  value?: unknown;
+
+  /**
+   * A human-readable description of the problem.
+   */
+  message: string;
+}
+
+/**
+ * The result of validating a serialized form, e.g. via {@link validateOloJson}.
+ *
+ * Either the value matches the schema and `value` holds it, or it doesn't and `errors`
+ * lists every mismatch found.
+ *
+ * @template Value - The type of the validated value.
+ *
+ * @example
+ * const result = validateOloJson('descriptor', { uri: { id: 'ae123' }, format: 'PICTURE' });
+ *
+ * if (!result.success) {
+ *   console.log(result.errors.map(error => error.path)); // Output: ['/format', '/parts']
+ * }
+ */
+export type OloJsonValidationResult<Value> =
+  | { success: true; value: Value; errors: [] }
+  | { success: false; value?: undefined; errors: OloJsonSchemaError[] };
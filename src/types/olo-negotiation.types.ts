@@ -0,0 +1,58 @@
+import { Format } from './format.constants.ts';
+import { NormalizedSelector, Selector } from './selector.types.ts';
+
+/**
+ * What an entity can provide, compared with a requested descriptor by {@link negotiateDescriptor}.
+ *
+ * @example
+ * const offer: OloNegotiationOffer = {
+ *   formats: [Format.image, Format.link],
+ *   parts: { header: true, body: { title: true, text: true } },
+ * };
+ */
+export interface OloNegotiationOffer {
+  /**
+   * The formats the entity can be served in.
+   */
+  formats: Format[];
+
+  /**
+   * The parts the entity can provide. Defaults to `true`, i.e. all parts.
+   *
+   * @optional
+   */
+  parts?: boolean | Selector<string, boolean | string | number>;
+}
+
+/**
+ * Optional configuration of {@link negotiateDescriptor}.
+ */
+export interface OloNegotiationOptions {
+  /**
+   * The formats to fall back to, in order of preference, if a requested format can't be served.
+   * Defaults to {@link FORMAT_FALLBACKS}. Fallbacks aren't followed transitively.
+   *
+   * @optional
+   */
+  fallbacks?: Partial<Record<Format, Format[]>>;
+}
+
+/**
+ * The result of negotiating a descriptor via {@link negotiateDescriptor}.
+ *
+ * Either the requested format, or one of its fallbacks, can be served and `descriptor` holds the effective descriptor,
+ * or none of them can be served. In both cases `dropped` holds the requested parts the entity can't provide.
+ *
+ * @template Descriptor - The type of the effective descriptor.
+ *
+ * @example
+ * const result = negotiateDescriptor(requested, { formats: [Format.image], parts: { header: true } });
+ *
+ * if (result.servable) {
+ *   console.log(result.descriptor.format, result.fallback); // Output: 'IMAGE' true
+ * }
+ * console.log(result.dropped); // Output: { body: true }
+ */
+export type OloNegotiationResult<Descriptor> =
+  | { servable: true; descriptor: Descriptor; format: Format; fallback: boolean; dropped: NormalizedSelector }
+  | { servable: false; descriptor?: undefined; format?: undefined; fallback?: undefined; dropped: NormalizedSelector };
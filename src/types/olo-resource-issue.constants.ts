@@ -0,0 +1,27 @@
+/**
+ * Defines the codes of the problems that can be found when the metadata of a resource is checked
+ * against its format (see {@link OloFormatRegistry}).
+ *
+ * The codes are used by {@link OloResourceIssue}. Problems of the identifiers of a resource are
+ * reported with {@link OloIdIssueCode}s instead.
+ */
+export enum OloResourceIssueCode {
+  /**
+   * The filetype of a resource is not one of the MIME types of its format.
+   */
+  invalidFiletype = 'INVALID_FILETYPE',
+
+  /**
+   * A resource holds a field that doesn't apply to its format, e.g. a duration for an image.
+   */
+  inapplicableField = 'INAPPLICABLE_FIELD',
+}
+
+/**
+ * Typeguard for OloResourceIssueCode.
+ *
+ * @param obj - input that needs to be checked
+ * @returns true if input is a OloResourceIssueCode
+ */
+export const isOloResourceIssueCode = (obj: unknown): obj is OloResourceIssueCode =>
+  obj != null && typeof obj === 'string' && Object.values(OloResourceIssueCode).includes(obj as OloResourceIssueCode);
@@ -0,0 +1,38 @@
+import { OloResourceField } from './olo-format.types.ts';
+import { OloResourceIssueCode } from './olo-resource-issue.constants.ts';
+
+/**
+ * Describes a single problem found while checking the metadata of a resource against its format,
+ * e.g. via {@link OloResource.validateFormat}.
+ *
+ * @example
+ * const issue: OloResourceIssue = {
+ *   code: OloResourceIssueCode.inapplicableField,
+ *   property: 'duration',
+ *   value: 60,
+ *   message: 'Field "duration" doesn\'t apply to format IMAGE.',
+ * };
+ */
+export interface OloResourceIssue {
+  /**
+   * The machine-readable code of the problem.
+   */
+  code: OloResourceIssueCode;
+
+  /**
+   * The name of the field the problem relates to.
+   */
+  property: OloResourceField;
+
+  /**
+   * The offending value, if any.
+   *
+   * @optional
+   */
+  value?: unknown;
+
+  /**
+   * A human-readable description of the problem.
+   */
+  message: string;
+}
@@ -0,0 +1,17 @@
+/**
+ * The key of a {@link Selector} setting the selection of all parts that are not listed explicitly.
+ *
+ * Without it, an object selector listing only excluded parts selects all other parts, while an object
+ * selector listing any included part selects only the listed parts.
+ *
+ * @example
+ * // Everything, but only the title of the body
+ * const selector: Selector = { [SELECTOR_WILDCARD]: true, body: { title: true } };
+ */
+export const SELECTOR_WILDCARD = '*' as const;
+
+/**
+ * Type alias representing the literal string '*', the key setting the selection of all unlisted parts.
+ * @see {@link SELECTOR_WILDCARD}
+ */
+export type SelectorWildcard = typeof SELECTOR_WILDCARD;
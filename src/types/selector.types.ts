@@ -1,3 +1,5 @@
+import { SELECTOR_WILDCARD, SelectorWildcard } from './selector.constants.ts';
+
 /**
  * Represents a selection mechanism, typically used to specify which parts or
  * aspects of an entity should be included or processed.
@@ -38,5 +40,122 @@
  * };
  */
 export type Selector<Parts extends string = string, Setting extends boolean | string | number = boolean> = {
-  [key in Parts]?: Setting | Selector | Selector<Parts>;
+  [key in Parts]?: Setting | Selector<string, Setting>;
 };
+
+/**
+ * The canonical form of a {@link Selector} returned by the selector operations (e.g. {@link normalizeSelector}):
+ * `true` selects everything, `false` nothing. Object forms only hold boolean settings and nested selectors,
+ * list no redundant parts and use {@link SELECTOR_WILDCARD} only where the selection of the unlisted parts
+ * can't be told from the listed ones.
+ *
+ * @template Parts - The names of the parts that can be selected. Defaults to `string`.
+ *
+ * @example
+ * const selector: NormalizedSelector<'header' | 'body'> = { body: { title: true } };
+ */
+export type NormalizedSelector<Parts extends string = string> = boolean | Selector<Parts | SelectorWildcard, boolean>;
+
+/**
+ * A selector in any of its forms accepted by the selector operations: a boolean or a {@link Selector}
+ * with boolean, string or number settings.
+ *
+ * @template Parts - The names of the parts that can be selected. Defaults to `string`.
+ *
+ * @example
+ * const selector: AnySelector<'header' | 'comments'> = { header: true, comments: 10 };
+ */
+export type AnySelector<Parts extends string = string> = boolean | Selector<Parts, boolean | string | number>;
+
+/**
+ * The dot-separated paths of the parts of an entity type, e.g. `'body' | 'body.title'` for `{ body: { title: string } }`.
+ * Lists are passed through, i.e. the paths of a list are the paths of its items.
+ * Paths are resolved up to a depth of 5; for `unknown` entities any string is a path.
+ *
+ * @template Entity - The type of the entity.
+ *
+ * @example
+ * type ArticlePath = SelectorPath<{ header: string; body: { title: string; authors: { name: string }[] } }>;
+ * // ArticlePath is 'header' | 'body' | 'body.title' | 'body.authors' | 'body.authors.name'
+ */
+export type SelectorPath<Entity, Depth extends unknown[] = []> =
+  unknown extends Entity
+    ? string
+    : Depth['length'] extends 5
+      ? never
+      : Entity extends readonly (infer Item)[]
+        ? SelectorPath<Item, Depth>
+        : Entity extends Date | ((...args: never[]) => unknown)
+          ? never
+          : Entity extends object
+            ? {
+                [Key in keyof Entity & string]-?: Key | `${Key}.${SelectorPath<NonNullable<Entity[Key]>, [...Depth, unknown]>}`
+              }[keyof Entity & string]
+            : never;
+
+/**
+ * The settings of a {@link Selector} excluding their part.
+ */
+export type ExcludingSetting = false | 0 | '' | '0' | 'false';
+
+/**
+ * The keys of a selector whose setting includes their part.
+ *
+ * @private
+ */
+type IncludedKeys<SelectorType> = Exclude<{
+  [Key in keyof SelectorType]-?: SelectorType[Key] extends ExcludingSetting ? never : Key
+}[keyof SelectorType], SelectorWildcard>;
+
+/**
+ * The keys of a selector whose setting excludes their part.
+ *
+ * @private
+ */
+type ExcludedKeys<SelectorType> = {
+  [Key in keyof SelectorType]-?: SelectorType[Key] extends ExcludingSetting ? Key : never
+}[keyof SelectorType];
+
+/**
+ * Whether an object selector selects only its listed parts: either the {@link SELECTOR_WILDCARD} excludes
+ * the unlisted parts, or the selector includes any part.
+ *
+ * @private
+ */
+type IsInclusiveSelector<SelectorType> = SelectorType extends { [SELECTOR_WILDCARD]: infer Wildcard }
+  ? Wildcard extends ExcludingSetting ? true : false
+  : [IncludedKeys<SelectorType>] extends [never] ? false : true;
+
+/**
+ * The type of an entity projected by a selector (see {@link project}): the parts of the entity selected
+ * by the selector, with nested selectors applied to their parts and to the items of lists.
+ *
+ * The selector needs to be known by its literal type, e.g. declared `as const`; settings of a wider type
+ * (e.g. `boolean`) are considered including.
+ *
+ * @template Entity - The type of the entity.
+ * @template SelectorType - The literal type of the selector.
+ *
+ * @example
+ * type Article = { header: string; body: { title: string; text: string }; footer: string };
+ *
+ * type Teaser = SelectorProjection<Article, { header: true; body: { title: 1 } }>;
+ * // Teaser is { header: string; body: { title: string } }
+ *
+ * type WithoutFooter = SelectorProjection<Article, { footer: false }>;
+ * // WithoutFooter is { header: string; body: { title: string; text: string } }
+ */
+export type SelectorProjection<Entity, SelectorType> =
+  SelectorType extends ExcludingSetting
+    ? never
+    : SelectorType extends object
+      ? Entity extends readonly (infer Item)[]
+        ? SelectorProjection<Item, SelectorType>[]
+        : Entity extends Date | ((...args: never[]) => unknown)
+          ? Entity
+          : Entity extends object
+            ? IsInclusiveSelector<SelectorType> extends true
+              ? { [Key in keyof Entity as Key extends IncludedKeys<SelectorType> ? Key : never]: SelectorProjection<Entity[Key], SelectorType[Key & keyof SelectorType]> }
+              : { [Key in keyof Entity as Key extends ExcludedKeys<SelectorType> ? never : Key]: Key extends keyof SelectorType ? SelectorProjection<Entity[Key], SelectorType[Key]> : Entity[Key] }
+            : Entity
+      : Entity;